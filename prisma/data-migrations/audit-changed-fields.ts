@@ -0,0 +1,48 @@
+import { PrismaClient } from '@prisma/client';
+
+/**
+ * Data migration: fill `AuditLog.changedFields`.
+ *
+ * `fieldsChanged` holds changed leaf paths (e.g. `authors.0.name`); the
+ * `fieldsChanged` filter matches field names through `changedFields`, their
+ * top-level fields. It is derived, not hashed, so filling it leaves the
+ * chain intact.
+ *
+ * Run after `npm run db:push` (and after `db:migrate:audit-json` on
+ * databases that still have text diffs):
+ *   npm run db:migrate:audit-fields
+ *
+ * Safe to re-run: only entries with an empty `changedFields` are filled.
+ */
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 5000;
+
+async function main() {
+  console.log('- Filling changed fields of audit entries...');
+
+  const [{ max }] = await prisma.$queryRaw<{ max: number | null }[]>`SELECT MAX("sequence") AS "max" FROM "AuditLog"`;
+  let updated = 0;
+
+  // One sequence window per statement keeps transactions short
+  for (let from = 1; max !== null && from <= max; from += BATCH_SIZE) {
+    updated += await prisma.$executeRaw`
+      UPDATE "AuditLog"
+      SET "changedFields" = ARRAY(
+        SELECT DISTINCT split_part(path, '.', 1) FROM unnest("fieldsChanged") AS path
+      )
+      WHERE "sequence" >= ${from} AND "sequence" < ${from + BATCH_SIZE}
+        AND "changedFields" = '{}'
+        AND "fieldsChanged" <> '{}'`;
+  }
+
+  console.log(`- Filled ${updated} audit entr(ies)`);
+}
+
+main()
+  .catch((e) => {
+    console.error('- Migration failed:', e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,83 @@
+import { PrismaClient } from '@prisma/client';
+
+/**
+ * Data migration: move audit diffs from text to native JSON / array columns.
+ *
+ * `AuditLog.diff` was a JSON string and `fieldsChanged` a comma-separated
+ * string. Their hash covers that exact text, which JSONB does not keep (it
+ * reorders keys), so the text columns are kept as `legacyDiff` /
+ * `legacyFieldsChanged` and the new columns are filled from them.
+ *
+ * 1. Before `npm run db:push`, rename the text columns:
+ *      npm run db:migrate:audit-json -- --prepare
+ * 2. npm run db:push (adds `diff` as JSONB and `fieldsChanged` as text[])
+ * 3. Backfill the new columns:
+ *      npm run db:migrate:audit-json
+ *
+ * Both steps are safe to re-run: renamed columns are left alone and only
+ * entries with an empty JSON diff are backfilled.
+ */
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 5000;
+
+async function columnExists(column: string): Promise<boolean> {
+  const rows = await prisma.$queryRaw<{ exists: boolean }[]>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = 'AuditLog' AND column_name = ${column}
+    ) AS "exists"`;
+  return rows[0]?.exists ?? false;
+}
+
+async function prepare() {
+  console.log('- Renaming audit diff text columns...');
+
+  if (await columnExists('legacyDiff')) {
+    console.log('- Already renamed');
+    return;
+  }
+
+  await prisma.$transaction([
+    prisma.$executeRaw`ALTER TABLE "AuditLog" RENAME COLUMN "diff" TO "legacyDiff"`,
+    prisma.$executeRaw`ALTER TABLE "AuditLog" RENAME COLUMN "fieldsChanged" TO "legacyFieldsChanged"`,
+  ]);
+
+  console.log('- Renamed; now run `npm run db:push`, then this script without --prepare');
+}
+
+async function backfill() {
+  console.log('- Backfilling audit diffs...');
+
+  const [{ max }] = await prisma.$queryRaw<{ max: number | null }[]>`SELECT MAX("sequence") AS "max" FROM "AuditLog"`;
+  let updated = 0;
+
+  // One sequence window per statement keeps transactions short
+  for (let from = 1; max !== null && from <= max; from += BATCH_SIZE) {
+    updated += await prisma.$executeRaw`
+      UPDATE "AuditLog"
+      SET "diff" = "legacyDiff"::jsonb,
+          "fieldsChanged" = COALESCE(string_to_array("legacyFieldsChanged", ','), '{}')
+      WHERE "sequence" >= ${from} AND "sequence" < ${from + BATCH_SIZE}
+        AND "diff" IS NULL
+        AND ("legacyDiff" IS NOT NULL OR "legacyFieldsChanged" IS NOT NULL)`;
+  }
+
+  console.log(`- Backfilled ${updated} audit entr(ies)`);
+}
+
+async function main() {
+  if (process.argv.includes('--prepare')) {
+    await prepare();
+  } else {
+    await backfill();
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('- Migration failed:', e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,65 @@
+import { PrismaClient } from '@prisma/client';
+import { computeAuditHash } from '../../src/utils/audit-chain';
+
+/**
+ * Data migration: hash audit entries written before the hash chain existed.
+ *
+ * Run once after `npm run db:push` has added the chain columns, before the API
+ * writes new audit entries:
+ *   npm run db:migrate:audit-chain
+ *
+ * Entries are linked in sequence order. Entries that are already hashed are
+ * checked instead of rewritten, so the script is safe to re-run; it stops at
+ * the first hashed entry that does not link to the one before it.
+ */
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 500;
+
+async function main() {
+  console.log('- Chaining audit log entries...');
+
+  let prevHash: string | null = null;
+  let nextSequence = 0;
+  let hashed = 0;
+  let checked = 0;
+
+  for (;;) {
+    const entries = await prisma.auditLog.findMany({
+      where: { sequence: { gte: nextSequence } },
+      orderBy: { sequence: 'asc' },
+      take: BATCH_SIZE,
+    });
+    if (entries.length === 0) break;
+
+    for (const entry of entries) {
+      if (entry.hash) {
+        if (entry.prevHash !== prevHash || computeAuditHash(entry) !== entry.hash) {
+          throw new Error(`Audit entry ${entry.id} (sequence ${entry.sequence}) does not link to the chain`);
+        }
+        checked++;
+      } else {
+        const chained = { ...entry, prevHash };
+        entry.hash = computeAuditHash(chained);
+        await prisma.auditLog.update({
+          where: { id: entry.id },
+          data: { prevHash, hash: entry.hash },
+        });
+        hashed++;
+      }
+      prevHash = entry.hash;
+    }
+
+    nextSequence = entries[entries.length - 1].sequence + 1;
+  }
+
+  console.log(`- Hashed ${hashed} audit entr(ies), checked ${checked} already chained`);
+}
+
+main()
+  .catch((e) => {
+    console.error('- Migration failed:', e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
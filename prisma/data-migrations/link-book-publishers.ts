@@ -0,0 +1,58 @@
+import { PrismaClient } from '@prisma/client';
+
+/**
+ * Data migration: link books to Publisher rows by their `publishedBy` name.
+ *
+ * Run once after `npm run db:push` has created the Publisher table:
+ *   npm run db:migrate:publishers
+ *
+ * Only books without a publisherId are processed, so the script is safe to re-run.
+ * Names are matched case-insensitively against existing publishers before new ones are created.
+ */
+
+const prisma = new PrismaClient();
+
+async function main() {
+  console.log('- Linking book publishers...');
+
+  const names = await prisma.book.findMany({
+    where: { publisherId: null },
+    select: { publishedBy: true },
+    distinct: ['publishedBy'],
+  });
+
+  let publishersCreated = 0;
+  let booksLinked = 0;
+
+  for (const { publishedBy } of names) {
+    const name = publishedBy.trim();
+    if (!name) {
+      console.warn('   Skipping books with an empty publisher name');
+      continue;
+    }
+
+    let publisher = await prisma.publisher.findFirst({
+      where: { name: { equals: name, mode: 'insensitive' } },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (!publisher) {
+      publisher = await prisma.publisher.create({ data: { name } });
+      publishersCreated++;
+    }
+
+    const { count } = await prisma.book.updateMany({
+      where: { publisherId: null, publishedBy },
+      data: { publisherId: publisher.id, publishedBy: publisher.name },
+    });
+    booksLinked += count;
+  }
+
+  console.log(`- Linked ${booksLinked} book(s), created ${publishersCreated} publisher(s)`);
+}
+
+main()
+  .catch((e) => {
+    console.error('- Migration failed:', e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
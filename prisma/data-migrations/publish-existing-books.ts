@@ -0,0 +1,43 @@
+import { PrismaClient } from '@prisma/client';
+
+/**
+ * Data migration: mark books that predate the editorial workflow as published.
+ *
+ * `npm run db:push` gives every existing book the default 'draft' status.
+ * Run once with the time the workflow was deployed, so that only older books are touched:
+ *   npm run db:migrate:workflow -- 2025-06-01T00:00:00Z
+ *
+ * publishedAt is set to the book's creation date.
+ */
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const cutoff = process.argv[2] ? new Date(process.argv[2]) : null;
+  if (!cutoff || isNaN(cutoff.getTime())) {
+    throw new Error('Usage: npm run db:migrate:workflow -- <ISO datetime cutoff>');
+  }
+
+  console.log(`- Publishing draft books created before ${cutoff.toISOString()}...`);
+
+  const books = await prisma.book.findMany({
+    where: { status: 'draft', publishedAt: null, createdAt: { lt: cutoff } },
+    select: { id: true, createdAt: true },
+  });
+
+  for (const book of books) {
+    await prisma.book.update({
+      where: { id: book.id },
+      data: { status: 'published', publishedAt: book.createdAt },
+    });
+  }
+
+  console.log(`- Published ${books.length} book(s)`);
+}
+
+main()
+  .catch((e) => {
+    console.error('- Migration failed:', e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,111 @@
+import { PrismaClient } from '@prisma/client';
+import { formatByline } from '../../src/utils/authors';
+
+/**
+ * Data migration: split legacy `Book.authors` strings into Author rows.
+ *
+ * Run once after `npm run db:push` has created the Author/BookAuthor tables:
+ *   npm run db:migrate:authors
+ *
+ * Only books without author links are processed, so the script is safe to re-run.
+ * Names are matched case-insensitively against existing authors before new ones are created.
+ *
+ * Names are only split on ';', '&' and ' and '. A comma may separate two authors
+ * ("Jane Doe, John Roe") or a surname from its given names ("Tolkien, J.R.R."),
+ * so books whose authors contain one are left unlinked and listed for manual
+ * review: rewrite their `authors` with ';' between names and re-run the script.
+ */
+
+const prisma = new PrismaClient();
+
+/**
+ * Split a legacy authors string on its unambiguous separators, dropping
+ * duplicates (case-insensitive). Returns null when a name contains a comma.
+ */
+function splitLegacyAuthorNames(authors: string): string[] | null {
+  const seen = new Set<string>();
+  const names: string[] = [];
+
+  for (const part of authors.split(/;|&|\s+and\s+/i)) {
+    const name = part.trim().replace(/\s+/g, ' ');
+    if (name.includes(',')) return null;
+    if (!name || seen.has(name.toLowerCase())) continue;
+    seen.add(name.toLowerCase());
+    names.push(name);
+  }
+
+  return names;
+}
+
+async function main() {
+  console.log('- Splitting book authors...');
+
+  const books = await prisma.book.findMany({
+    where: { contributors: { none: {} } },
+    select: { id: true, authors: true },
+  });
+
+  let booksLinked = 0;
+  let authorsCreated = 0;
+  const needsReview: { id: string; authors: string }[] = [];
+
+  for (const book of books) {
+    const names = splitLegacyAuthorNames(book.authors);
+    if (names === null) {
+      needsReview.push(book);
+      continue;
+    }
+    if (names.length === 0) {
+      console.warn(`   Skipping book ${book.id}: no author names in '${book.authors}'`);
+      continue;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const credits = [];
+
+      for (const name of names) {
+        let author = await tx.author.findFirst({
+          where: { name: { equals: name, mode: 'insensitive' }, isDeleted: false },
+          orderBy: { createdAt: 'asc' },
+        });
+        if (!author) {
+          author = await tx.author.create({ data: { name } });
+          authorsCreated++;
+        }
+        credits.push({ authorId: author.id, name: author.name, role: 'author' as const });
+      }
+
+      await tx.book.update({
+        where: { id: book.id },
+        data: {
+          // Normalize the byline to the linked author names
+          authors: formatByline(credits),
+          contributors: {
+            create: credits.map((credit, position) => ({
+              authorId: credit.authorId,
+              role: credit.role,
+              position,
+            })),
+          },
+        },
+      });
+    });
+    booksLinked++;
+  }
+
+  console.log(`- Linked ${booksLinked} book(s), created ${authorsCreated} author(s)`);
+
+  if (needsReview.length > 0) {
+    console.warn(`- ${needsReview.length} book(s) need manual review (comma in authors, separate names with ';'):`);
+    for (const book of needsReview) {
+      console.warn(`   ${book.id}: '${book.authors}'`);
+    }
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('- Migration failed:', e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
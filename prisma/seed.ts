@@ -10,6 +10,8 @@ async function main() {
   } else {
     console.log('- ' + result.message);
     console.log('   Users:', result.data?.users.join(', '));
+    console.log('   Authors:', result.data?.authorsCreated);
+    console.log('   Publishers:', result.data?.publishersCreated);
     console.log('   Books:', result.data?.booksCreated);
   }
 
@@ -1,14 +1,16 @@
 import 'dotenv/config';
 
 import express from 'express';
-import { config } from './config';
+import { config, findPlaceholderSecrets } from './config';
 import { logger } from './utils/logger';
 import routes from './routes';
+import { startAuditRetentionSweeper } from './services/retention.service';
 import {
   requestContextMiddleware,
   httpLoggerMiddleware,
   errorHandler,
   notFoundHandler,
+  mountRoutes,
 } from './middleware';
 
 /**
@@ -17,6 +19,15 @@ import {
  * A minimal API with config-driven audit trail, RBAC, and comprehensive logging.
  */
 
+const placeholderSecrets = findPlaceholderSecrets();
+if (placeholderSecrets.length > 0) {
+  console.error(
+    `Refusing to start: ${placeholderSecrets.join(', ')} still set to the example value. ` +
+      'Generate a secret (e.g. openssl rand -hex 32) or leave it empty to disable the feature.'
+  );
+  process.exit(1);
+}
+
 const app = express();
 
 // Trust proxy (for correct IP in logs behind reverse proxy)
@@ -35,7 +46,7 @@ app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
 // API routes
-app.use('/api', routes);
+mountRoutes(app, '/api', routes);
 
 // 404 handler
 app.use(notFoundHandler);
@@ -50,6 +61,7 @@ app.listen(PORT, () => {
   logger.info(`Server started`, {
     port: PORT
   });
+  startAuditRetentionSweeper();
   console.log(`
 --- Book Publishing API ---
 Server running on: http://localhost:${PORT}
@@ -62,14 +74,54 @@ Health check: http://localhost:${PORT}/api/health
 
    GET    /api/books               - List books (paginated)
    POST   /api/books               - Create book
+   POST   /api/books/import        - Bulk import (CSV / JSON Lines, dryRun)
+   GET    /api/books/export        - Export catalog (CSV / JSON Lines / ONIX)
+   GET    /api/books/:id/history   - Book version history (?asOf= on GET /:id)
+   POST   /api/books/:id/revert    - Revert book to an audited version (admin)
+   GET    /api/books/by-isbn/:isbn - Get book by ISBN
    GET    /api/books/:id           - Get book
    PATCH  /api/books/:id           - Update book
    DELETE /api/books/:id           - Delete book
    POST   /api/books/:id/restore   - Restore book (admin)
+   GET    /api/books/:id/comments  - List comment threads
+   POST   /api/books/:id/comments  - Comment or reply
+   PATCH  /api/books/:id/comments/:commentId          - Edit comment (own, or admin)
+   DELETE /api/books/:id/comments/:commentId          - Delete comment (admin)
+   POST   /api/books/:id/comments/:commentId/resolve  - Resolve / unresolve thread
+   GET    /api/books/workflow      - Editorial workflow config
+   POST   /api/books/:id/<action>  - Workflow: submit, reject, approve,
+                                     schedule, unschedule, publish, retire, reissue
+
+   GET    /api/authors             - List authors (paginated)
+   POST   /api/authors             - Create author
+   GET    /api/authors/:id         - Get author
+   GET    /api/authors/:id/books   - List books by author
+   PATCH  /api/authors/:id         - Update author
+   DELETE /api/authors/:id         - Delete author (admin)
+
+   GET    /api/publishers          - List publishers (admin)
+   POST   /api/publishers          - Create publisher (admin)
+   GET    /api/publishers/:id      - Get publisher (admin)
+   PATCH  /api/publishers/:id      - Update publisher (admin)
+   DELETE /api/publishers/:id      - Delete publisher (admin)
+
+   GET    /api/users/:id/data-export - Export a user's data (admin)
+   POST   /api/users/:id/erase     - Erase a user's personal data (admin)
 
    GET    /api/audits              - List audits (admin)
    GET    /api/audits/:id          - Get audit (admin)
    GET    /api/audits/entities     - Get auditable entities (admin)
+   GET    /api/audits/reads        - List recorded reads (admin)
+   POST   /api/audits/changesets/:requestId/rollback - Undo a request's changes (admin)
+   GET    /api/audits/stats        - Bucketed audit counts (admin)
+   GET    /api/audits/export       - Export audits as CSV/JSON Lines (admin)
+   GET    /api/audits/verify       - Verify the audit hash chain (admin)
+   GET    /api/audits/checkpoint   - Export a signed chain checkpoint (admin)
+   POST   /api/audits/checkpoint/verify - Compare a stored checkpoint (admin)
+   GET    /api/audits/archives     - List audit archives (admin)
+   POST   /api/audits/archives/sweep - Run the retention sweep now (admin)
+   POST   /api/audits/archives/:archiveId/import - Re-import an archive (admin)
+   DELETE /api/audits/archives/:archiveId/import - Release re-imported entries (admin)
 
 - Test Credentials:
    Admin:    admin@bookpub.com / admin123
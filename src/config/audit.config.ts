@@ -1,3 +1,5 @@
+import { AuditAction, SecurityAction } from '../types';
+
 /**
  * Audit Configuration
  * 
@@ -11,13 +13,45 @@
  * Options per entity:
  * - track: boolean - Whether to track this entity
  * - exclude: string[] - Fields to exclude from diff (won't appear in audit log)
- * - redact: string[] - Fields to redact in diff (will appear as '[REDACTED]')
+ *   exclude and redact accept dotted paths into nested values (e.g. 'metadata.internal');
+ *   array indices are left out, so a path applies to every element of an array
+ * - redact: (string | FieldRedaction)[] - Fields to redact in diff. A plain name is
+ *   fully redacted ('[REDACTED]'); { field, strategy } picks another strategy:
+ *     full    - '[REDACTED]'
+ *     hash    - '[HASH:<hmac>]' salted HMAC-SHA256 (equal values stay comparable)
+ *     mask    - '[MASKED:****1234]' only the last `visibleChars` (default 4) kept
+ *     encrypt - '[ENCRYPTED:...]' AES-256-GCM; readable with the audit:reveal privilege
+ * - trackReads?: boolean - Also record who viewed a record (AuditRead table, outside
+ *   the hash chain). Identical reads by the same actor within
+ *   AUDIT_READ_DEDUP_SECONDS are recorded once.
+ *   An entity may track reads only (track: false), like AuditLog itself.
+ * - retentionDays?: number - Remove entries older than this (kept forever when omitted)
+ * - archive?: boolean - Write expired entries to an archive file before removing them
+ *   (default: true; false purges them)
  */
 
+export type RedactionStrategy = 'full' | 'hash' | 'mask' | 'encrypt';
+
+export interface FieldRedaction {
+  field: string;
+  strategy: RedactionStrategy;
+  // mask: number of trailing characters left visible (default 4)
+  visibleChars?: number;
+}
+
 export interface AuditEntityConfig {
   track: boolean;
   exclude: string[];
-  redact: string[];
+  redact: (string | FieldRedaction)[];
+  trackReads?: boolean;
+  retentionDays?: number;
+  archive?: boolean;
+}
+
+export interface AuditRetentionPolicy {
+  entity: string;
+  retentionDays: number;
+  archive: boolean;
 }
 
 export interface AuditConfig {
@@ -27,22 +61,60 @@ export interface AuditConfig {
 export const auditConfig: AuditConfig = {
   Book: {
     track: true,
-    exclude: ['updatedAt'],  // Don't track automatic timestamp changes
+    trackReads: true,
+    exclude: ['updatedAt', 'version', 'contributors', 'publisher'],  // Timestamps, version counter and relation includes (tracked via `authors`/`publisherId`)
     redact: [],              // No sensitive fields to redact
   },
+  Author: {
+    track: true,
+    exclude: ['updatedAt'],
+    redact: [],
+  },
   User: {
+    track: true,
+    trackReads: true,
+    exclude: ['updatedAt'],
+    redact: [
+      'password',                              // Sensitive credentials - show as [REDACTED]
+      { field: 'apiKey', strategy: 'hash' },   // Key rotations stay visible without exposing keys
+    ],
+  },
+  Publisher: {
     track: true,
     exclude: ['updatedAt'],
-    redact: ['password', 'apiKey'],  // Sensitive credentials - show as [REDACTED]
+    redact: [{ field: 'taxId', strategy: 'encrypt' }],
   },
-  // Easy to extend. Just add new entities here:
-  // Publisher: {
-  //   track: true,
-  //   exclude: ['updatedAt'],
-  //   redact: ['taxId'],
-  // },
+  BookComment: {
+    track: true,
+    exclude: ['updatedAt', 'createdBy'],
+    redact: [],
+  },
+  // Reads of audit entries are audited too; changes are never made to them
+  AuditLog: {
+    track: false,
+    trackReads: true,
+    exclude: [],
+    redact: [],
+  },
+  // Easy to extend. Just add new entities here.
 } as const;
 
+// Security events: recorded on the User entity, under the anonymous actor when nobody authenticated
+export const SECURITY_ACTIONS: SecurityAction[] = ['login_failed', 'access_denied', 'token_invalid'];
+
+// Actions that record an event rather than a change of state
+const EVENT_ACTIONS: AuditAction[] = ['login', 'read', 'reveal', 'data_export', 'erase', ...SECURITY_ACTIONS];
+
+// Event actions that leave the entity as it was (an erasure rewrites the user row)
+export const NON_MUTATING_ACTIONS: AuditAction[] = EVENT_ACTIONS.filter((action) => action !== 'erase');
+
+/**
+ * Check if an action records an event (its diff holds event details, not state)
+ */
+export function isEventAction(action: string): boolean {
+  return EVENT_ACTIONS.includes(action as AuditAction);
+}
+
 /**
  * Check if an entity is auditable
  */
@@ -50,6 +122,13 @@ export function isAuditable(entity: string): boolean {
   return entity in auditConfig && auditConfig[entity].track;
 }
 
+/**
+ * Check if reads of an entity are audited
+ */
+export function isReadAuditable(entity: string): boolean {
+  return entity in auditConfig && auditConfig[entity].trackReads === true;
+}
+
 /**
  * Get audit config for an entity
  */
@@ -58,6 +137,27 @@ export function getEntityAuditConfig(entity: string): AuditEntityConfig | null {
   return auditConfig[entity];
 }
 
+/**
+ * Get the redaction of a field, or null when it isn't redacted
+ */
+export function getFieldRedaction(config: AuditEntityConfig, field: string): FieldRedaction | null {
+  for (const rule of config.redact) {
+    if (typeof rule === 'string') {
+      if (rule === field) return { field, strategy: 'full' };
+    } else if (rule.field === field) {
+      return rule;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the names of an entity's redacted fields (any strategy)
+ */
+export function getRedactedFields(config: AuditEntityConfig): string[] {
+  return config.redact.map((rule) => (typeof rule === 'string' ? rule : rule.field));
+}
+
 /**
  * Get list of all auditable entities
  */
@@ -66,3 +166,25 @@ export function getAuditableEntities(): string[] {
     .filter(([_, config]) => config.track)
     .map(([entity]) => entity);
 }
+
+/**
+ * Get list of all entities that appear in the audit trail (changes or reads tracked)
+ */
+export function getAuditedEntities(): string[] {
+  return Object.entries(auditConfig)
+    .filter(([_, config]) => config.track || config.trackReads)
+    .map(([entity]) => entity);
+}
+
+/**
+ * Get the retention policies of entities with a retention period
+ */
+export function getAuditRetentionPolicies(): AuditRetentionPolicy[] {
+  return Object.entries(auditConfig)
+    .filter(([_, config]) => config.retentionDays !== undefined && config.retentionDays > 0)
+    .map(([entity, config]) => ({
+      entity,
+      retentionDays: config.retentionDays!,
+      archive: config.archive ?? true,
+    }));
+}
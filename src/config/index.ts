@@ -1,5 +1,7 @@
 export * from './audit.config';
 export * from './logger.config';
+export * from './workflow.config';
+export * from './privileges.config';
 
 // Application-wide configuration
 export const config = {
@@ -13,4 +15,81 @@ export const config = {
     defaultLimit: 10,
     maxLimit: 100,
   },
+  import: {
+    maxRows: parseInt(process.env.IMPORT_MAX_ROWS || '1000', 10),
+    maxBodySize: process.env.IMPORT_MAX_BODY_SIZE || '5mb',
+    // A real import runs in one transaction; allow it enough time
+    transactionTimeoutMs: parseInt(process.env.IMPORT_TRANSACTION_TIMEOUT_MS || '120000', 10),
+  },
+  export: {
+    // Books fetched per page while streaming an export (capped by pagination.maxLimit)
+    batchSize: parseInt(process.env.EXPORT_BATCH_SIZE || '100', 10),
+    // Sender name in the ONIX message header
+    onixSenderName: process.env.ONIX_SENDER_NAME || 'Book Publishing API',
+  },
+  changesets: {
+    // A rollback runs in one transaction; allow it enough time
+    transactionTimeoutMs: parseInt(process.env.CHANGESET_TRANSACTION_TIMEOUT_MS || '60000', 10),
+  },
+  erasure: {
+    // An erasure scrubs the user's audit entries in one transaction; allow it enough time
+    transactionTimeoutMs: parseInt(process.env.ERASURE_TRANSACTION_TIMEOUT_MS || '60000', 10),
+  },
+  auditContext: {
+    // Request details recorded on every audit entry; turn off e.g. IP capture for privacy regions
+    captureIp: process.env.AUDIT_CAPTURE_IP !== 'false',
+    captureUserAgent: process.env.AUDIT_CAPTURE_USER_AGENT !== 'false',
+    captureMethod: process.env.AUDIT_CAPTURE_METHOD !== 'false',
+    captureRoute: process.env.AUDIT_CAPTURE_ROUTE !== 'false',
+    captureAuthMethod: process.env.AUDIT_CAPTURE_AUTH_METHOD !== 'false',
+  },
+  auditChain: {
+    // HMAC key for signed checkpoints; checkpoints are disabled without it
+    checkpointSecret: process.env.AUDIT_CHECKPOINT_SECRET || '',
+    // Entries read per batch while verifying the chain
+    verifyBatchSize: parseInt(process.env.AUDIT_VERIFY_BATCH_SIZE || '500', 10),
+  },
+  auditSecurityEvents: {
+    // Anonymous security events recorded per client IP a minute (0: no limit)
+    anonymousLimitPerMinute: parseInt(process.env.AUDIT_ANONYMOUS_EVENT_LIMIT || '20', 10),
+  },
+  auditReads: {
+    // Identical reads (same actor and record) within this window are recorded once
+    dedupWindowSeconds: parseInt(process.env.AUDIT_READ_DEDUP_SECONDS || '300', 10),
+  },
+  auditRedaction: {
+    // Salt for 'hash' redaction; without it hashed fields are fully redacted
+    hashSalt: process.env.AUDIT_REDACTION_SALT || '',
+    // Key (any passphrase) for 'encrypt' redaction; without it encrypted fields are fully redacted
+    encryptionKey: process.env.AUDIT_ENCRYPTION_KEY || '',
+  },
+  auditArchive: {
+    // Archive files are written under <directory>/<YYYY>/<MM>/<DD>/
+    directory: process.env.AUDIT_ARCHIVE_DIR || './archives/audit',
+    // Minutes between retention sweeps (0 disables the sweeper)
+    sweepIntervalMinutes: parseInt(process.env.AUDIT_SWEEP_INTERVAL_MINUTES || '60', 10),
+    // Expired entries read per sweep batch
+    batchSize: parseInt(process.env.AUDIT_ARCHIVE_BATCH_SIZE || '1000', 10),
+  },
+  concurrency: {
+    // Reject book writes without an If-Match header (428)
+    requireIfMatch: process.env.REQUIRE_IF_MATCH === 'true',
+  },
 };
+
+// Example values earlier .env.example files shipped for secrets; never accepted
+const PLACEHOLDER_SECRETS: Record<string, string> = {
+  AUDIT_CHECKPOINT_SECRET: 'change-me-checkpoint-secret',
+  AUDIT_REDACTION_SALT: 'change-me-redaction-salt',
+  AUDIT_ENCRYPTION_KEY: 'change-me-encryption-key',
+};
+
+/**
+ * Names of environment variables still set to a placeholder secret.
+ * The server refuses to start while any are left.
+ */
+export function findPlaceholderSecrets(): string[] {
+  return Object.entries(PLACEHOLDER_SECRETS)
+    .filter(([name, placeholder]) => process.env[name] === placeholder)
+    .map(([name]) => name);
+}
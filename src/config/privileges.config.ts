@@ -0,0 +1,29 @@
+import { Privilege, UserRole } from '../types';
+
+/**
+ * Privilege Configuration
+ *
+ * Privileges guard individual operations beyond route access. A role only
+ * holds the privileges listed for it here: being allowed on a route (even
+ * as admin) doesn't grant them.
+ *
+ * Privileges:
+ * - audit:reveal - Decrypt encrypted values in the audit trail
+ *   (POST /api/audits/:id/reveal; every reveal is itself audited)
+ * - user:export - Export everything held about a user (GET /api/users/:id/data-export)
+ * - user:erase - Erase a user's personal data (POST /api/users/:id/erase)
+ */
+
+export type PrivilegeConfig = Record<UserRole, Privilege[]>;
+
+export const privilegeConfig: PrivilegeConfig = {
+  admin: ['audit:reveal', 'user:export', 'user:erase'],
+  reviewer: [],
+};
+
+/**
+ * Check if a role holds a privilege
+ */
+export function hasPrivilege(role: string, privilege: Privilege): boolean {
+  return privilegeConfig[role as UserRole]?.includes(privilege) ?? false;
+}
@@ -0,0 +1,89 @@
+import { BookStatus, UserRole, WorkflowTransition } from '../types';
+
+/**
+ * Editorial Workflow Configuration
+ *
+ * This configuration defines the book lifecycle: which transitions exist,
+ * which states they can start from, the state they lead to, and which
+ * roles may trigger them.
+ *
+ * Each transition gets its own endpoint (POST /api/books/:id/<transition>)
+ * and is recorded in the audit trail under its own action name.
+ *
+ * Options per transition:
+ * - from: BookStatus[] - States the transition is allowed from
+ * - to: BookStatus - Resulting state
+ * - roles: UserRole[] - Roles allowed to trigger the transition
+ */
+
+export interface WorkflowTransitionConfig {
+  from: BookStatus[];
+  to: BookStatus;
+  roles: UserRole[];
+}
+
+export type WorkflowConfig = Record<WorkflowTransition, WorkflowTransitionConfig>;
+
+export const workflowConfig: WorkflowConfig = {
+  submit: {
+    from: ['draft'],
+    to: 'in_review',
+    roles: ['admin', 'reviewer'],
+  },
+  reject: {
+    from: ['in_review'],
+    to: 'draft',             // Back to the author for changes
+    roles: ['admin', 'reviewer'],
+  },
+  approve: {
+    from: ['in_review'],
+    to: 'approved',
+    roles: ['admin', 'reviewer'],
+  },
+  schedule: {
+    from: ['approved'],
+    to: 'scheduled',         // Requires a publishAt date
+    roles: ['admin'],
+  },
+  unschedule: {
+    from: ['scheduled'],
+    to: 'approved',
+    roles: ['admin'],
+  },
+  publish: {
+    from: ['approved', 'scheduled'],
+    to: 'published',
+    roles: ['admin'],
+  },
+  retire: {
+    from: ['published'],
+    to: 'out_of_print',
+    roles: ['admin'],
+  },
+  reissue: {
+    from: ['out_of_print'],
+    to: 'published',
+    roles: ['admin'],
+  },
+};
+
+/**
+ * Check if an action name is a workflow transition
+ */
+export function isWorkflowTransition(action: string): action is WorkflowTransition {
+  return action in workflowConfig;
+}
+
+/**
+ * Get config for a transition
+ */
+export function getTransitionConfig(transition: WorkflowTransition): WorkflowTransitionConfig {
+  return workflowConfig[transition];
+}
+
+/**
+ * Get list of all workflow transitions
+ */
+export function getWorkflowTransitions(): WorkflowTransition[] {
+  return Object.keys(workflowConfig) as WorkflowTransition[];
+}
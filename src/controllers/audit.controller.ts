@@ -1,7 +1,23 @@
 import { Response } from 'express';
-import { auditService } from '../services';
-import { AuthenticatedRequest, AuditFilterParams } from '../types';
-import { auditFilterSchema, idParamSchema } from '../validation/schemas';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { auditService, changesetService, exportService, retentionService } from '../services';
+import { AuthenticatedRequest, AuditFilterParams, AuditReadFilterParams } from '../types';
+import {
+  auditArchiveListQuerySchema,
+  auditArchiveParamsSchema,
+  auditCheckpointSchema,
+  auditExportQuerySchema,
+  auditFilterSchema,
+  auditReadFilterSchema,
+  auditRevealSchema,
+  auditStatsQuerySchema,
+  auditVerifyQuerySchema,
+  changesetParamsSchema,
+  changesetRollbackQuerySchema,
+  idParamSchema,
+} from '../validation/schemas';
+import { logger } from '../utils/logger';
 
 /**
  * Audit Controller
@@ -26,26 +42,208 @@ export async function listAudits(req: AuthenticatedRequest, res: Response): Prom
     actorId: validatedQuery.actorId,
     action: validatedQuery.action,
     fieldsChanged: req.query.fieldsChanged as string,
+    changedField: validatedQuery.changedField,
+    changedFrom: validatedQuery.changedFrom,
+    changedTo: validatedQuery.changedTo,
     requestId: validatedQuery.requestId,
+    ip: validatedQuery.ip,
+    userAgent: validatedQuery.userAgent,
+    method: validatedQuery.method,
+    route: validatedQuery.route,
+    authMethod: validatedQuery.authMethod,
     limit: String(validatedQuery.limit || 10),
     cursor: validatedQuery.cursor,
   };
 
   const result = await auditService.getAuditLogs(filters);
 
-  // Parse diff JSON for each item
-  const itemsWithParsedDiff = result.items.map((item) => ({
-    ...item,
-    diff: item.diff ? JSON.parse(item.diff) : null,
-    fieldsChanged: item.fieldsChanged ? item.fieldsChanged.split(',') : [],
-  }));
-
   res.json({
     ...result,
-    items: itemsWithParsedDiff,
+    items: result.items.map(auditService.toAuditResponse),
   });
 }
 
+/**
+ * GET /api/audits/reads
+ * List recorded reads (who viewed a record) with filters
+ */
+export async function listAuditReads(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const validatedQuery = auditReadFilterSchema.parse(req.query);
+
+  const filters: AuditReadFilterParams = {
+    from: validatedQuery.from,
+    to: validatedQuery.to,
+    entity: validatedQuery.entity,
+    entityId: validatedQuery.entityId,
+    actorId: validatedQuery.actorId,
+    limit: String(validatedQuery.limit || 10),
+    cursor: validatedQuery.cursor,
+  };
+
+  res.json(await auditService.getAuditReads(filters));
+}
+
+/**
+ * GET /api/audits/stats?groupBy=action|entity|actorId|field|hour|day|week
+ * Count audits matching the list filters, bucketed by groupBy
+ */
+export async function getAuditStats(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const validatedQuery = auditStatsQuerySchema.parse(req.query);
+
+  const filters: AuditFilterParams = {
+    from: validatedQuery.from,
+    to: validatedQuery.to,
+    entity: validatedQuery.entity,
+    entityId: validatedQuery.entityId,
+    actorId: validatedQuery.actorId,
+    action: validatedQuery.action,
+    fieldsChanged: validatedQuery.fieldsChanged,
+    changedField: validatedQuery.changedField,
+    changedFrom: validatedQuery.changedFrom,
+    changedTo: validatedQuery.changedTo,
+    requestId: validatedQuery.requestId,
+    ip: validatedQuery.ip,
+    userAgent: validatedQuery.userAgent,
+    method: validatedQuery.method,
+    route: validatedQuery.route,
+    authMethod: validatedQuery.authMethod,
+  };
+
+  const stats = await auditService.getAuditStats(filters, validatedQuery.groupBy);
+
+  res.json(stats);
+}
+
+/**
+ * GET /api/audits/export?format=csv|jsonl
+ * Stream all audit entries matching the list filters as a file download
+ */
+export async function exportAudits(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const validatedQuery = auditExportQuerySchema.parse(req.query);
+
+  const filters: AuditFilterParams = {
+    from: validatedQuery.from,
+    to: validatedQuery.to,
+    entity: validatedQuery.entity,
+    entityId: validatedQuery.entityId,
+    actorId: validatedQuery.actorId,
+    action: validatedQuery.action,
+    fieldsChanged: validatedQuery.fieldsChanged,
+    changedField: validatedQuery.changedField,
+    changedFrom: validatedQuery.changedFrom,
+    changedTo: validatedQuery.changedTo,
+    requestId: validatedQuery.requestId,
+    ip: validatedQuery.ip,
+    userAgent: validatedQuery.userAgent,
+    method: validatedQuery.method,
+    route: validatedQuery.route,
+    authMethod: validatedQuery.authMethod,
+  };
+
+  const format = validatedQuery.format;
+  const chunks = exportService.exportAudits(format, filters);
+  const { contentType, extension } = exportService.EXPORT_CONTENT_TYPES[format];
+  const filename = `audits-${new Date().toISOString().substring(0, 10)}.${extension}`;
+
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+  try {
+    await pipeline(Readable.from(chunks), res);
+  } catch (error) {
+    // Once streaming has started the status can't change; the response is cut short
+    if (!res.headersSent) throw error;
+    logger.error('Audit export aborted', {
+      format,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * GET /api/audits/verify?from=&to=
+ * Walk the audit hash chain and report the first broken link
+ */
+export async function verifyChain(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { from, to } = auditVerifyQuerySchema.parse(req.query);
+
+  const result = await auditService.verifyAuditChain(from, to);
+
+  res.json(result);
+}
+
+/**
+ * GET /api/audits/checkpoint
+ * Download a signed checkpoint of the chain head, to be stored off-box
+ */
+export async function exportCheckpoint(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const checkpoint = await auditService.createCheckpoint();
+
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename="audit-checkpoint-${checkpoint.sequence}.json"`
+  );
+  res.json(checkpoint);
+}
+
+/**
+ * POST /api/audits/checkpoint/verify
+ * Compare a previously exported checkpoint with the current chain
+ */
+export async function verifyCheckpoint(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const checkpoint = auditCheckpointSchema.parse(req.body);
+
+  const result = await auditService.verifyCheckpoint(checkpoint);
+
+  res.json(result);
+}
+
+/**
+ * GET /api/audits/archives?entity=
+ * List audit archives written by the retention sweeper
+ */
+export async function listArchives(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { entity } = auditArchiveListQuerySchema.parse(req.query);
+
+  const items = await retentionService.listArchives(entity);
+
+  res.json({ items });
+}
+
+/**
+ * POST /api/audits/archives/sweep
+ * Run the retention sweep now
+ */
+export async function sweepAudits(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const results = await retentionService.sweepExpiredAudits();
+
+  res.json({ results });
+}
+
+/**
+ * POST /api/audits/archives/:archiveId/import
+ * Re-import an archive's entries for an investigation
+ */
+export async function importArchive(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { archiveId } = auditArchiveParamsSchema.parse(req.params);
+
+  const result = await retentionService.importArchive(archiveId);
+
+  res.json(result);
+}
+
+/**
+ * DELETE /api/audits/archives/:archiveId/import
+ * Remove an archive's re-imported entries again
+ */
+export async function releaseArchive(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { archiveId } = auditArchiveParamsSchema.parse(req.params);
+
+  const result = await retentionService.releaseArchive(archiveId);
+
+  res.json(result);
+}
+
 /**
  * GET /api/audits/:id
  * Get a single audit log by ID
@@ -55,14 +253,39 @@ export async function getAudit(req: AuthenticatedRequest, res: Response): Promis
 
   const audit = await auditService.getAuditById(id);
 
-  // Parse diff JSON
-  const auditWithParsedDiff = {
-    ...audit,
-    diff: audit.diff ? JSON.parse(audit.diff) : null,
-    fieldsChanged: audit.fieldsChanged ? audit.fieldsChanged.split(',') : [],
-  };
+  res.json(auditService.toAuditResponse(audit));
+}
+
+/**
+ * POST /api/audits/:id/reveal
+ * Decrypt an audit entry's encrypted values (requires the audit:reveal privilege)
+ */
+export async function revealAudit(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { id } = idParamSchema.parse(req.params);
+  const { fields } = auditRevealSchema.parse(req.body ?? {});
+
+  const result = await auditService.revealAuditValues(id, req.user!.id, fields);
+
+  // Revealed values must not be kept by caches
+  res.setHeader('Cache-Control', 'no-store');
+  res.json(result);
+}
+
+/**
+ * POST /api/audits/changesets/:requestId/rollback?preview=true
+ * Undo every change recorded for a request (or preview the rollback)
+ */
+export async function rollbackChangeset(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { requestId } = changesetParamsSchema.parse(req.params);
+  const validatedQuery = changesetRollbackQuerySchema.parse(req.query);
+
+  const result = await changesetService.rollbackChangeset(
+    requestId,
+    req.user!.id,
+    validatedQuery.preview === 'true'
+  );
 
-  res.json(auditWithParsedDiff);
+  res.json(result);
 }
 
 /**
@@ -0,0 +1,107 @@
+import { Response } from 'express';
+import { authorService, bookService } from '../services';
+import { AuthenticatedRequest } from '../types';
+import { parsePaginationParams } from '../utils/pagination';
+import {
+  createAuthorSchema,
+  updateAuthorSchema,
+  idParamSchema,
+  authorListQuerySchema,
+  bookListQuerySchema,
+} from '../validation/schemas';
+
+/**
+ * Author Controller
+ *
+ * Handles HTTP requests for author operations.
+ */
+
+/**
+ * GET /api/authors
+ * List authors with search and pagination
+ */
+export async function listAuthors(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const validatedQuery = authorListQuerySchema.parse(req.query);
+
+  const paginationParams = parsePaginationParams({
+    limit: validatedQuery.limit ? String(validatedQuery.limit) : undefined,
+    cursor: validatedQuery.cursor,
+  });
+
+  const result = await authorService.getAuthors(paginationParams, { q: validatedQuery.q });
+
+  res.json(result);
+}
+
+/**
+ * GET /api/authors/:id
+ * Get a single author by ID
+ */
+export async function getAuthor(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { id } = idParamSchema.parse(req.params);
+
+  const author = await authorService.getAuthorById(id);
+
+  res.json(author);
+}
+
+/**
+ * GET /api/authors/:id/books
+ * List books crediting an author
+ */
+export async function listAuthorBooks(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { id } = idParamSchema.parse(req.params);
+  const validatedQuery = bookListQuerySchema.parse(req.query);
+
+  // Ensure author exists
+  await authorService.getAuthorById(id);
+
+  const paginationParams = parsePaginationParams({
+    limit: validatedQuery.limit ? String(validatedQuery.limit) : undefined,
+    cursor: validatedQuery.cursor,
+  });
+
+  const result = await bookService.getBooks(paginationParams, {
+    authorId: id,
+    sort: validatedQuery.sort,
+  });
+
+  res.json(result);
+}
+
+/**
+ * POST /api/authors
+ * Create a new author
+ */
+export async function createAuthor(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const data = createAuthorSchema.parse(req.body);
+
+  const author = await authorService.createAuthor(data);
+
+  res.status(201).json(author);
+}
+
+/**
+ * PATCH /api/authors/:id
+ * Update an author
+ */
+export async function updateAuthor(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { id } = idParamSchema.parse(req.params);
+  const data = updateAuthorSchema.parse(req.body);
+
+  const author = await authorService.updateAuthor(id, data);
+
+  res.json(author);
+}
+
+/**
+ * DELETE /api/authors/:id
+ * Soft delete an author (admin only)
+ */
+export async function deleteAuthor(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { id } = idParamSchema.parse(req.params);
+
+  await authorService.deleteAuthor(id);
+
+  res.json({ ok: true });
+}
@@ -1,8 +1,26 @@
 import { Response } from 'express';
-import { bookService } from '../services';
-import { AuthenticatedRequest } from '../types';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { bookService, exportService, historyService, importService } from '../services';
+import { AuthenticatedRequest, BookFilterParams, ImportFormat, WorkflowTransition } from '../types';
 import { parsePaginationParams } from '../utils/pagination';
-import { createBookSchema, updateBookSchema, idParamSchema } from '../validation/schemas';
+import {
+  createBookSchema,
+  updateBookSchema,
+  idParamSchema,
+  isbnParamSchema,
+  bookListQuerySchema,
+  bookExportQuerySchema,
+  bookQuerySchema,
+  revertBookSchema,
+  transitionBookSchema,
+  importQuerySchema,
+} from '../validation/schemas';
+import { workflowConfig } from '../config/workflow.config';
+import { config } from '../config';
+import { formatEtag, parseIfMatch } from '../utils/etag';
+import { AppError } from '../middleware/error.middleware';
+import { logger } from '../utils/logger';
 
 /**
  * Book Controller
@@ -10,33 +28,148 @@ import { createBookSchema, updateBookSchema, idParamSchema } from '../validation
  * Handles HTTP requests for book operations.
  */
 
+/**
+ * Read the If-Match precondition for a book write.
+ *
+ * Returns the allowed versions, or undefined when any version is accepted
+ * ('*' or no header). Without a header, strict mode answers 428.
+ */
+function getExpectedVersions(req: AuthenticatedRequest): number[] | undefined {
+  const ifMatch = parseIfMatch(req.headers['if-match']);
+
+  if (ifMatch === undefined && config.concurrency.requireIfMatch) {
+    throw new AppError(
+      'PRECONDITION_REQUIRED',
+      'If-Match header is required. GET the book and send its ETag.',
+      428
+    );
+  }
+
+  return ifMatch === '*' ? undefined : ifMatch;
+}
+
 /**
  * GET /api/books
- * List all books with pagination
+ * List books with search, filters, sorting and pagination
  */
 export async function listBooks(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const validatedQuery = bookListQuerySchema.parse(req.query);
+
   const paginationParams = parsePaginationParams({
-    limit: req.query.limit as string,
-    cursor: req.query.cursor as string,
+    limit: validatedQuery.limit ? String(validatedQuery.limit) : undefined,
+    cursor: validatedQuery.cursor,
   });
 
-  const includeDeleted = req.query.includeDeleted === 'true' && req.user?.role === 'admin';
+  const filters: BookFilterParams = {
+    q: validatedQuery.q,
+    createdById: validatedQuery.createdById,
+    updatedById: validatedQuery.updatedById,
+    createdFrom: validatedQuery.createdFrom,
+    createdTo: validatedQuery.createdTo,
+    updatedFrom: validatedQuery.updatedFrom,
+    updatedTo: validatedQuery.updatedTo,
+    authorId: validatedQuery.authorId,
+    publisherId: validatedQuery.publisherId,
+    status: validatedQuery.status,
+    sort: validatedQuery.sort,
+  };
 
-  const result = await bookService.getBooks(paginationParams, includeDeleted);
+  const includeDeleted = validatedQuery.includeDeleted === 'true' && req.user?.role === 'admin';
+
+  const result = await bookService.getBooks(paginationParams, filters, includeDeleted);
 
   res.json(result);
 }
 
+/**
+ * GET /api/books/export?format=csv|jsonl|onix
+ * Stream the catalog, with the same filters as the list endpoint
+ */
+export async function exportBooks(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const validatedQuery = bookExportQuerySchema.parse(req.query);
+
+  const filters: BookFilterParams = {
+    q: validatedQuery.q,
+    createdById: validatedQuery.createdById,
+    updatedById: validatedQuery.updatedById,
+    createdFrom: validatedQuery.createdFrom,
+    createdTo: validatedQuery.createdTo,
+    updatedFrom: validatedQuery.updatedFrom,
+    updatedTo: validatedQuery.updatedTo,
+    authorId: validatedQuery.authorId,
+    publisherId: validatedQuery.publisherId,
+    status: validatedQuery.status,
+    sort: validatedQuery.sort,
+  };
+
+  const includeDeleted = validatedQuery.includeDeleted === 'true' && req.user?.role === 'admin';
+
+  const format = validatedQuery.format;
+  const chunks = exportService.exportBooks(format, filters, includeDeleted);
+  const { contentType, extension } = exportService.EXPORT_CONTENT_TYPES[format];
+  const filename = `books-${new Date().toISOString().substring(0, 10)}.${extension}`;
+
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+  try {
+    await pipeline(Readable.from(chunks), res);
+  } catch (error) {
+    // Once streaming has started the status can't change; the response is cut short
+    if (!res.headersSent) throw error;
+    logger.error('Book export aborted', {
+      format,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
 /**
  * GET /api/books/:id
- * Get a single book by ID
+ * Get a single book by ID, or as it was at ?asOf=<ISO date>
  */
 export async function getBook(req: AuthenticatedRequest, res: Response): Promise<void> {
   const { id } = idParamSchema.parse(req.params);
-  const includeDeleted = req.query.includeDeleted === 'true' && req.user?.role === 'admin';
+  const validatedQuery = bookQuerySchema.parse(req.query);
+  const includeDeleted = validatedQuery.includeDeleted === 'true' && req.user?.role === 'admin';
+
+  // Point-in-time view, rebuilt from the audit trail
+  if (validatedQuery.asOf) {
+    const snapshot = await historyService.getBookAsOf(id, new Date(validatedQuery.asOf), includeDeleted);
+    res.json(snapshot);
+    return;
+  }
 
   const book = await bookService.getBookById(id, includeDeleted);
 
+  res.setHeader('ETag', formatEtag(book.version));
+  res.json(book);
+}
+
+/**
+ * GET /api/books/:id/history
+ * Chronological version timeline of a book
+ */
+export async function getBookHistory(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { id } = idParamSchema.parse(req.params);
+  const includeDeleted = req.query.includeDeleted === 'true' && req.user?.role === 'admin';
+
+  const history = await historyService.getBookHistory(id, includeDeleted);
+
+  res.json(history);
+}
+
+/**
+ * GET /api/books/by-isbn/:isbn
+ * Get a single book by ISBN-10 or ISBN-13
+ */
+export async function getBookByIsbn(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { isbn } = isbnParamSchema.parse(req.params);
+  const includeDeleted = req.query.includeDeleted === 'true' && req.user?.role === 'admin';
+
+  const book = await bookService.getBookByIsbn(isbn, includeDeleted);
+
+  res.setHeader('ETag', formatEtag(book.version));
   res.json(book);
 }
 
@@ -50,9 +183,45 @@ export async function createBook(req: AuthenticatedRequest, res: Response): Prom
 
   const book = await bookService.createBook(data, userId);
 
+  res.setHeader('ETag', formatEtag(book.version));
   res.status(201).json(book);
 }
 
+/**
+ * POST /api/books/import?format=csv|jsonl&dryRun=true
+ * Bulk import books from a CSV or JSON Lines body
+ */
+export async function importBooks(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const validatedQuery = importQuerySchema.parse(req.query);
+
+  // Format from the query, else from the content type
+  const contentType = req.headers['content-type'] || '';
+  const format: ImportFormat | undefined = validatedQuery.format
+    || (contentType.includes('csv') ? 'csv' : undefined)
+    || (/ndjson|jsonl/.test(contentType) ? 'jsonl' : undefined);
+
+  if (!format) {
+    throw new AppError(
+      'INVALID_FORMAT',
+      'Import format is required: ?format=csv|jsonl, or Content-Type text/csv or application/x-ndjson',
+      400
+    );
+  }
+
+  if (typeof req.body !== 'string') {
+    throw new AppError(
+      'INVALID_BODY',
+      'Import body must be sent as text/csv, application/x-ndjson or text/plain',
+      415
+    );
+  }
+
+  const dryRun = validatedQuery.dryRun === 'true';
+  const report = await importService.importBooks(req.body, format, req.user!.id, dryRun);
+
+  res.status(dryRun ? 200 : 201).json(report);
+}
+
 /**
  * PATCH /api/books/:id
  * Update a book
@@ -61,9 +230,11 @@ export async function updateBook(req: AuthenticatedRequest, res: Response): Prom
   const { id } = idParamSchema.parse(req.params);
   const data = updateBookSchema.parse(req.body);
   const userId = req.user!.id;
+  const expectedVersions = getExpectedVersions(req);
 
-  const book = await bookService.updateBook(id, data, userId);
+  const book = await bookService.updateBook(id, data, userId, expectedVersions);
 
+  res.setHeader('ETag', formatEtag(book.version));
   res.json(book);
 }
 
@@ -74,8 +245,9 @@ export async function updateBook(req: AuthenticatedRequest, res: Response): Prom
 export async function deleteBook(req: AuthenticatedRequest, res: Response): Promise<void> {
   const { id } = idParamSchema.parse(req.params);
   const userId = req.user!.id;
+  const expectedVersions = getExpectedVersions(req);
 
-  await bookService.deleteBook(id, userId);
+  await bookService.deleteBook(id, userId, expectedVersions);
 
   res.json({ ok: true });
 }
@@ -87,8 +259,50 @@ export async function deleteBook(req: AuthenticatedRequest, res: Response): Prom
 export async function restoreBook(req: AuthenticatedRequest, res: Response): Promise<void> {
   const { id } = idParamSchema.parse(req.params);
   const userId = req.user!.id;
+  const expectedVersions = getExpectedVersions(req);
 
-  const book = await bookService.restoreBook(id, userId);
+  const book = await bookService.restoreBook(id, userId, expectedVersions);
 
+  res.setHeader('ETag', formatEtag(book.version));
   res.json(book);
 }
+
+/**
+ * POST /api/books/:id/revert
+ * Restore field values from an audit entry's before/after snapshot
+ */
+export async function revertBook(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { id } = idParamSchema.parse(req.params);
+  const data = revertBookSchema.parse(req.body);
+  const userId = req.user!.id;
+  const expectedVersions = getExpectedVersions(req);
+
+  const result = await bookService.revertBook(id, data, userId, expectedVersions);
+
+  res.setHeader('ETag', formatEtag(result.book.version));
+  res.json(result);
+}
+
+/**
+ * POST /api/books/:id/<transition>
+ * Move a book through an editorial workflow transition (e.g. submit, approve, publish)
+ */
+export function transitionBook(transition: WorkflowTransition) {
+  return async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { id } = idParamSchema.parse(req.params);
+    const { publishAt } = transitionBookSchema.parse(req.body ?? {});
+
+    const book = await bookService.transitionBook(id, transition, req.user!, { publishAt });
+
+    res.setHeader('ETag', formatEtag(book.version));
+    res.json(book);
+  };
+}
+
+/**
+ * GET /api/books/workflow
+ * Get the editorial workflow (transitions, states and roles)
+ */
+export async function getWorkflow(req: AuthenticatedRequest, res: Response): Promise<void> {
+  res.json({ transitions: workflowConfig });
+}
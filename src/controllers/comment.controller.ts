@@ -0,0 +1,95 @@
+import { Response } from 'express';
+import { commentService } from '../services';
+import { AuthenticatedRequest } from '../types';
+import {
+  createCommentSchema,
+  updateCommentSchema,
+  commentListQuerySchema,
+  commentParamsSchema,
+  idParamSchema,
+} from '../validation/schemas';
+
+/**
+ * Book Comment Controller
+ *
+ * Handles HTTP requests for review comments on books.
+ */
+
+/**
+ * GET /api/books/:id/comments
+ * List comment threads of a book
+ */
+export async function listComments(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { id } = idParamSchema.parse(req.params);
+  const validatedQuery = commentListQuerySchema.parse(req.query);
+
+  const threads = await commentService.getCommentThreads(id, {
+    resolved: validatedQuery.resolved === undefined ? undefined : validatedQuery.resolved === 'true',
+    field: validatedQuery.field,
+  });
+
+  res.json({ items: threads });
+}
+
+/**
+ * POST /api/books/:id/comments
+ * Create a comment, or a reply when parentId is given
+ */
+export async function createComment(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { id } = idParamSchema.parse(req.params);
+  const data = createCommentSchema.parse(req.body);
+  const userId = req.user!.id;
+
+  const comment = await commentService.createComment(id, data, userId);
+
+  res.status(201).json(comment);
+}
+
+/**
+ * PATCH /api/books/:id/comments/:commentId
+ * Edit a comment (own comments, or any comment for admins)
+ */
+export async function updateComment(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { id, commentId } = commentParamsSchema.parse(req.params);
+  const data = updateCommentSchema.parse(req.body);
+
+  const comment = await commentService.updateComment(id, commentId, data, req.user!);
+
+  res.json(comment);
+}
+
+/**
+ * DELETE /api/books/:id/comments/:commentId
+ * Soft delete a comment (admin only)
+ */
+export async function deleteComment(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { id, commentId } = commentParamsSchema.parse(req.params);
+
+  await commentService.deleteComment(id, commentId);
+
+  res.json({ ok: true });
+}
+
+/**
+ * POST /api/books/:id/comments/:commentId/resolve
+ * Mark a thread as resolved
+ */
+export async function resolveComment(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { id, commentId } = commentParamsSchema.parse(req.params);
+
+  const comment = await commentService.setCommentResolved(id, commentId, true, req.user!.id);
+
+  res.json(comment);
+}
+
+/**
+ * POST /api/books/:id/comments/:commentId/unresolve
+ * Reopen a resolved thread
+ */
+export async function unresolveComment(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { id, commentId } = commentParamsSchema.parse(req.params);
+
+  const comment = await commentService.setCommentResolved(id, commentId, false, req.user!.id);
+
+  res.json(comment);
+}
@@ -1,3 +1,7 @@
 export * as bookController from './book.controller';
 export * as auditController from './audit.controller';
 export * as authController from './auth.controller';
+export * as authorController from './author.controller';
+export * as publisherController from './publisher.controller';
+export * as commentController from './comment.controller';
+export * as userController from './user.controller';
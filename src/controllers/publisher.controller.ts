@@ -0,0 +1,83 @@
+import { Response } from 'express';
+import { publisherService } from '../services';
+import { AuthenticatedRequest } from '../types';
+import { parsePaginationParams } from '../utils/pagination';
+import {
+  createPublisherSchema,
+  updatePublisherSchema,
+  idParamSchema,
+  publisherListQuerySchema,
+} from '../validation/schemas';
+
+/**
+ * Publisher Controller
+ *
+ * Handles HTTP requests for publisher operations.
+ * Admin only access.
+ */
+
+/**
+ * GET /api/publishers
+ * List publishers with search and pagination
+ */
+export async function listPublishers(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const validatedQuery = publisherListQuerySchema.parse(req.query);
+
+  const paginationParams = parsePaginationParams({
+    limit: validatedQuery.limit ? String(validatedQuery.limit) : undefined,
+    cursor: validatedQuery.cursor,
+  });
+
+  const result = await publisherService.getPublishers(paginationParams, { q: validatedQuery.q });
+
+  res.json(result);
+}
+
+/**
+ * GET /api/publishers/:id
+ * Get a single publisher by ID
+ */
+export async function getPublisher(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { id } = idParamSchema.parse(req.params);
+
+  const publisher = await publisherService.getPublisherById(id);
+
+  res.json(publisher);
+}
+
+/**
+ * POST /api/publishers
+ * Create a new publisher
+ */
+export async function createPublisher(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const data = createPublisherSchema.parse(req.body);
+
+  const publisher = await publisherService.createPublisher(data);
+
+  res.status(201).json(publisher);
+}
+
+/**
+ * PATCH /api/publishers/:id
+ * Update a publisher
+ */
+export async function updatePublisher(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { id } = idParamSchema.parse(req.params);
+  const data = updatePublisherSchema.parse(req.body);
+
+  const publisher = await publisherService.updatePublisher(id, data);
+
+  res.json(publisher);
+}
+
+/**
+ * DELETE /api/publishers/:id
+ * Soft delete a publisher
+ */
+export async function deletePublisher(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { id } = idParamSchema.parse(req.params);
+
+  await publisherService.deletePublisher(id);
+
+  res.json({ ok: true });
+}
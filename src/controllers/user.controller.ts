@@ -0,0 +1,38 @@
+import { Response } from 'express';
+import { dataSubjectService } from '../services';
+import { AuthenticatedRequest } from '../types';
+import { idParamSchema } from '../validation/schemas';
+
+/**
+ * User Controller
+ *
+ * Handles data subject requests (access export, erasure) for users.
+ * Admin only access.
+ */
+
+/**
+ * GET /api/users/:id/data-export
+ * Download everything held about a user as one JSON file (requires the user:export privilege)
+ */
+export async function exportUserData(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { id } = idParamSchema.parse(req.params);
+
+  const result = await dataSubjectService.exportDataSubject(id, req.user!.id);
+
+  // Personal data must not be kept by caches
+  res.setHeader('Cache-Control', 'no-store');
+  res.setHeader('Content-Disposition', `attachment; filename="user-${id}-data-export.json"`);
+  res.json(result);
+}
+
+/**
+ * POST /api/users/:id/erase
+ * Erase a user's personal data (requires the user:erase privilege)
+ */
+export async function eraseUser(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { id } = idParamSchema.parse(req.params);
+
+  const result = await dataSubjectService.eraseDataSubject(id, req.user!.id);
+
+  res.json(result);
+}
@@ -1,12 +1,11 @@
 import { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { PrismaClient } from '@prisma/client';
 import { AuthenticatedRequest, User } from '../types';
-import { setUserId } from '../utils/async-context';
+import { AuthMethod, setAuthMethod, setUserId } from '../utils/async-context';
 import { config } from '../config';
 import { AppError } from './error.middleware';
-
-const prisma = new PrismaClient();
+import { prisma } from '../utils/prisma';
+import { recordSecurityEvent } from '../services/audit.service';
 
 /**
  * Authentication Middleware
@@ -22,6 +21,26 @@ interface JwtPayload {
   role: string;
 }
 
+/**
+ * Record a presented credential that was rejected (the credential itself is never stored)
+ */
+function recordInvalidCredential(method: 'api_key' | 'jwt', reason: string, userId?: string): Promise<void> {
+  return recordSecurityEvent({
+    action: 'token_invalid',
+    entityId: userId,
+    details: { method, reason },
+  });
+}
+
+/**
+ * Reason a JWT failed verification (expired, bad signature, malformed, ...)
+ */
+function jwtFailureReason(error: unknown): string {
+  if (error instanceof jwt.TokenExpiredError) return 'expired';
+  if (error instanceof jwt.NotBeforeError) return 'not_active';
+  return 'invalid';
+}
+
 export async function authMiddleware(
   req: AuthenticatedRequest,
   res: Response,
@@ -32,6 +51,7 @@ export async function authMiddleware(
     const authHeader = req.headers.authorization;
 
     let user: User | null = null;
+    let authMethod: AuthMethod = 'api_key';
 
     // Try API Key authentication first
     if (apiKey) {
@@ -49,6 +69,8 @@ export async function authMiddleware(
 
       if (dbUser) {
         user = dbUser as User;
+      } else {
+        await recordInvalidCredential('api_key', 'unknown_api_key');
       }
     }
 
@@ -56,9 +78,15 @@ export async function authMiddleware(
     if (!user && authHeader?.startsWith('Bearer ')) {
       const token = authHeader.substring(7);
       
+      let decoded: JwtPayload | null = null;
       try {
-        const decoded = jwt.verify(token, config.jwt.secret) as JwtPayload;
-        
+        decoded = jwt.verify(token, config.jwt.secret) as JwtPayload;
+      } catch (jwtError) {
+        // JWT verification failed, continue without auth
+        await recordInvalidCredential('jwt', jwtFailureReason(jwtError));
+      }
+
+      if (decoded) {
         const dbUser = await prisma.user.findUnique({
           where: { id: decoded.userId },
           select: {
@@ -68,14 +96,17 @@ export async function authMiddleware(
             role: true,
             apiKey: true,
             createdAt: true,
+            erasedAt: true,
           },
         });
 
-        if (dbUser) {
+        // Tokens issued before an erasure are no longer honoured
+        if (dbUser && !dbUser.erasedAt) {
           user = dbUser as User;
+          authMethod = 'jwt';
+        } else {
+          await recordInvalidCredential('jwt', dbUser ? 'erased_user' : 'unknown_user', decoded.userId);
         }
-      } catch (jwtError) {
-        // JWT verification failed, continue without auth
       }
     }
 
@@ -86,8 +117,9 @@ export async function authMiddleware(
     // Attach user to request
     req.user = user;
 
-    // Set userId in async context for logging
+    // Set userId and auth method in async context for logging and auditing
     setUserId(user.id);
+    setAuthMethod(authMethod);
 
     next();
   } catch (error) {
@@ -126,13 +158,22 @@ export async function optionalAuthMiddleware(
       if (user) {
         req.user = user as User;
         setUserId(user.id);
+        setAuthMethod('api_key');
+      } else {
+        await recordInvalidCredential('api_key', 'unknown_api_key');
       }
     } else if (authHeader?.startsWith('Bearer ')) {
       const token = authHeader.substring(7);
       
+      let decoded: JwtPayload | null = null;
       try {
-        const decoded = jwt.verify(token, config.jwt.secret) as JwtPayload;
-        
+        decoded = jwt.verify(token, config.jwt.secret) as JwtPayload;
+      } catch (jwtError) {
+        // JWT verification failed, continue without auth
+        await recordInvalidCredential('jwt', jwtFailureReason(jwtError));
+      }
+
+      if (decoded) {
         const user = await prisma.user.findUnique({
           where: { id: decoded.userId },
           select: {
@@ -142,15 +183,17 @@ export async function optionalAuthMiddleware(
             role: true,
             apiKey: true,
             createdAt: true,
+            erasedAt: true,
           },
         });
 
-        if (user) {
+        if (user && !user.erasedAt) {
           req.user = user as User;
           setUserId(user.id);
+          setAuthMethod('jwt');
+        } else {
+          await recordInvalidCredential('jwt', user ? 'erased_user' : 'unknown_user', decoded.userId);
         }
-      } catch {
-        // JWT verification failed, continue without auth
       }
     }
 
@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { ZodError } from 'zod';
-import { getRequestId } from '../utils/async-context';
+import { getMountPath, getRequestId, setRoute } from '../utils/async-context';
 import { logger } from '../utils/logger';
 import { ApiError } from '../types';
 
@@ -171,6 +171,10 @@ export function asyncHandler<T>(
   fn: (req: Request, res: Response, next: NextFunction) => Promise<T>
 ) {
   return (req: Request, res: Response, next: NextFunction): void => {
+    // The route pattern is only known once a route matched
+    if (req.route?.path) {
+      setRoute(getMountPath() + req.route.path);
+    }
     Promise.resolve(fn(req, res, next)).catch(next);
   };
 }
@@ -1,6 +1,8 @@
 import { Response, NextFunction } from 'express';
-import { AuthenticatedRequest, UserRole } from '../types';
+import { AuthenticatedRequest, Privilege, UserRole } from '../types';
 import { AppError } from './error.middleware';
+import { hasPrivilege } from '../config/privileges.config';
+import { recordSecurityEvent } from '../services/audit.service';
 
 /**
  * Role-Based Access Control Middleware
@@ -19,11 +21,52 @@ export function requireRoles(...allowedRoles: UserRole[]) {
     }
 
     if (!allowedRoles.includes(req.user.role as UserRole)) {
-      next(new AppError(
+      const error = new AppError(
         'FORBIDDEN',
         `Access denied. Required roles: ${allowedRoles.join(', ')}`,
         403
-      ));
+      );
+      // recordSecurityEvent never rejects
+      recordSecurityEvent({
+        action: 'access_denied',
+        actorId: req.user.id,
+        details: {
+          method: req.method,
+          path: req.originalUrl,
+          role: req.user.role,
+          requiredRoles: allowedRoles,
+        },
+      }).then(() => next(error));
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Require a privilege (privileges.config.ts) to access a route
+ */
+export function requirePrivilege(privilege: Privilege) {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      next(new AppError('UNAUTHORIZED', 'Authentication required', 401));
+      return;
+    }
+
+    if (!hasPrivilege(req.user.role, privilege)) {
+      const error = new AppError('FORBIDDEN', `Access denied. Required privilege: ${privilege}`, 403);
+      // recordSecurityEvent never rejects
+      recordSecurityEvent({
+        action: 'access_denied',
+        actorId: req.user.id,
+        details: {
+          method: req.method,
+          path: req.originalUrl,
+          role: req.user.role,
+          requiredPrivilege: privilege,
+        },
+      }).then(() => next(error));
       return;
     }
 
@@ -1,6 +1,13 @@
-import { Request, Response, NextFunction } from 'express';
+import { Request, Response, NextFunction, Router } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { asyncLocalStorage, RequestContext } from '../utils/async-context';
+import {
+  asyncLocalStorage,
+  enterMount,
+  getMountPath,
+  leaveMount,
+  RequestContext,
+  setRoute,
+} from '../utils/async-context';
 
 /**
  * Request Context Middleware
@@ -8,7 +15,8 @@ import { asyncLocalStorage, RequestContext } from '../utils/async-context';
  * Sets up AsyncLocalStorage context for each request with:
  * - Unique requestId for tracing
  * - Start time for duration tracking
- * - userId (populated later by auth middleware)
+ * - Client IP (honouring `trust proxy`), user agent, method and path
+ * - userId and auth method (populated later by auth middleware)
  */
 export function requestContextMiddleware(
   req: Request,
@@ -25,6 +33,11 @@ export function requestContextMiddleware(
   const context: RequestContext = {
     requestId,
     startTime: Date.now(),
+    ip: req.ip,
+    userAgent: req.headers['user-agent'],
+    method: req.method,
+    // Replaced by the route pattern when the request enters a router (see mountRoutes)
+    route: req.path,
   };
   
   // Run the rest of the request within this context
@@ -32,3 +45,64 @@ export function requestContextMiddleware(
     next();
   });
 }
+
+// Pattern each router was mounted at with mountRoutes
+const mountPatterns = new WeakMap<object, string>();
+
+/**
+ * Pattern of the route a router would dispatch `path` to, relative to the
+ * router (e.g. /:id/comments/:commentId), or undefined when none matches.
+ * Lets middleware that runs before the route (authentication, RBAC) record
+ * the same pattern as the route handler.
+ */
+function matchRoutePattern(router: Router, method: string, path: string): string | undefined {
+  for (const layer of router.stack) {
+    // Layer.match is how the router itself matches; it only resets the layer's match state
+    const match = (layer as unknown as { match(path: string): boolean }).match;
+    if (!match.call(layer, path)) continue;
+
+    if (layer.route) {
+      const route = layer.route as unknown as { path: unknown; _handlesMethod(method: string): boolean };
+      if (typeof route.path === 'string' && route._handlesMethod(method)) {
+        return route.path;
+      }
+      continue;
+    }
+
+    const childPattern = mountPatterns.get(layer.handle);
+    if (childPattern !== undefined) {
+      const childPath = path.slice((layer.path ?? '').length) || '/';
+      const childRoute = matchRoutePattern(layer.handle as unknown as Router, method, childPath);
+      if (childRoute !== undefined) {
+        return childPattern + childRoute;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Mount a router at a path pattern, keeping track of the pattern so the
+ * recorded route stays a pattern (req.baseUrl holds the concrete path, e.g.
+ * the book ID of /api/books/:id/comments). The route pattern is resolved as
+ * the request enters the router; requests no route matches keep their path.
+ */
+export function mountRoutes(parent: Pick<Router, 'use'>, pattern: string, router: Router): void {
+  mountPatterns.set(router, pattern);
+  parent.use(
+    pattern,
+    (req: Request, res: Response, next: NextFunction) => {
+      enterMount(pattern);
+      const route = matchRoutePattern(router, req.method, req.path);
+      if (route !== undefined) {
+        setRoute(getMountPath() + route);
+      }
+      next();
+    },
+    router,
+    (req: Request, res: Response, next: NextFunction) => {
+      leaveMount();
+      next();
+    }
+  );
+}
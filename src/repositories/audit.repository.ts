@@ -1,19 +1,47 @@
-import { PrismaClient, Prisma } from '@prisma/client';
-import { AuditLog, AuditAction, AuditFilterParams } from '../types';
-import { isAuditable } from '../config/audit.config';
-import { getRequestId, getUserId } from '../utils/async-context';
-import { computeCreateDiff, computeUpdateDiff, computeDeleteDiff, DiffResult } from '../utils/diff';
-import { decodeCursor, encodeCursor, PaginatedResult } from '../utils/pagination';
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import {
+  AuditLog,
+  AuditAction,
+  AuditRead,
+  AuditReadFilterParams,
+  AuditChainLink,
+  AuditDiff,
+  AuditFilterParams,
+  AuditStatsBucket,
+  AuditStatsGroupBy,
+} from '../types';
+import { isAuditable, isEventAction, NON_MUTATING_ACTIONS } from '../config/audit.config';
+import { isWorkflowTransition } from '../config/workflow.config';
+import { getRequestContext, getRequestId } from '../utils/async-context';
+import {
+  computeCreateDiff,
+  computeUpdateDiff,
+  computeDeleteDiff,
+  computeEventDiff,
+  DiffResult,
+  getChangedFields,
+} from '../utils/diff';
+import { createPaginatedResponse, decodeCursor, encodeCursor, PaginatedResult } from '../utils/pagination';
 import { logger } from '../utils/logger';
 import { config } from '../config';
+import { beforeCommit, getTransaction, runInTransaction } from '../utils/transaction';
+import { computeAuditHash } from '../utils/audit-chain';
+import { prisma, TransactionClient } from '../utils/prisma';
 
-const prisma = new PrismaClient();
+// Active transaction (see runInTransaction) or the default client
+const db = (): TransactionClient => getTransaction() ?? prisma;
+
+// Advisory lock key serializing appends to the audit hash chain
+const AUDIT_CHAIN_LOCK_KEY = 7305861;
 
 /**
  * Audit Repository
  * 
  * Handles all audit log operations with config-driven tracking.
- * Adding a new entity to tracking only requires updating audit.config.ts.
+ * Adding a new entity to tracking only requires updating audit.config.ts:
+ * entries for model mutations are written by the audit client extension
+ * (utils/audit-extension.ts).
  */
 
 export interface CreateAuditParams {
@@ -23,13 +51,76 @@ export interface CreateAuditParams {
   actorId: string;
   before?: Record<string, unknown> | null;
   after?: Record<string, unknown> | null;
+  // Audit entry whose snapshot this change restored (reverts)
+  revertedToAuditId?: string;
+}
+
+/**
+ * Request details to record on an audit entry, as enabled in config.auditContext
+ */
+function getRequestDetails() {
+  const context = getRequestContext();
+  const capture = config.auditContext;
+
+  return {
+    ip: (capture.captureIp && context?.ip) || null,
+    userAgent: (capture.captureUserAgent && context?.userAgent) || null,
+    method: (capture.captureMethod && context?.method) || null,
+    route: (capture.captureRoute && context?.route) || null,
+    authMethod: (capture.captureAuthMethod && context?.authMethod) || null,
+  };
+}
+
+// Audit entry waiting to be appended to the hash chain
+type PendingAudit = {
+  id: string;
+  entity: string;
+  entityId: string;
+  action: AuditAction;
+  actorId: string;
+  requestId: string | null;
+  diff: Prisma.InputJsonObject | null;
+  fieldsChanged: string[];
+  revertedToAuditId: string | null;
+} & ReturnType<typeof getRequestDetails>;
+
+// Entries created in a transaction, appended when it commits
+const pendingAudits = new WeakMap<TransactionClient, PendingAudit[]>();
+
+/**
+ * Append entries to the hash chain, in order. The advisory lock is held until
+ * the transaction commits, so concurrent writers can't link to the same
+ * previous entry. Entries are timestamped as they are appended, so the chain
+ * stays in time order.
+ */
+async function appendToChain(entries: PendingAudit[]): Promise<void> {
+  await db().$executeRaw`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_KEY}::bigint)`;
+
+  let prevHash = (await findChainHead())?.hash ?? null;
+  for (const pending of entries) {
+    const entry = { ...pending, timestamp: new Date(), prevHash };
+    const hash = computeAuditHash(entry);
+
+    await db().auditLog.create({
+      data: {
+        ...entry,
+        diff: entry.diff ?? Prisma.DbNull,
+        changedFields: getChangedFields(entry.fieldsChanged),
+        hash,
+      },
+    });
+    prevHash = hash;
+  }
 }
 
 /**
- * Create an audit log entry
+ * Create an audit log entry. Inside a transaction the entry is appended to
+ * the hash chain as the transaction's last step, so the chain lock is taken
+ * after any row locks and held only while the transaction commits. Returns
+ * the entry's ID (null when the entity isn't audited).
  */
-export async function createAuditLog(params: CreateAuditParams): Promise<AuditLog | null> {
-  const { entity, entityId, action, actorId, before, after } = params;
+export async function createAuditLog(params: CreateAuditParams): Promise<{ id: string } | null> {
+  const { entity, entityId, action, actorId, before, after, revertedToAuditId } = params;
 
   // Check if entity is auditable
   if (!isAuditable(entity)) {
@@ -43,22 +134,39 @@ export async function createAuditLog(params: CreateAuditParams): Promise<AuditLo
     diff = computeCreateDiff(entity, after);
   } else if (action === 'delete' && before) {
     diff = computeDeleteDiff(entity, before);
-  } else if ((action === 'update' || action === 'restore') && before && after) {
+  } else if ((action === 'update' || action === 'restore' || isWorkflowTransition(action)) && before && after) {
     diff = computeUpdateDiff(entity, before, after);
+  } else if (isEventAction(action) && after) {
+    diff = computeEventDiff(entity, after);
   }
 
-  // Create audit log entry
-  const auditLog = await prisma.auditLog.create({
-    data: {
-      entity,
-      entityId,
-      action,
-      actorId,
-      requestId: getRequestId(),
-      diff: diff ? JSON.stringify({ before: diff.before, after: diff.after }) : null,
-      fieldsChanged: diff?.fieldsChanged.join(',') || null,
-    },
-  });
+  const entry: PendingAudit = {
+    id: randomUUID(),
+    entity,
+    entityId,
+    action,
+    actorId,
+    requestId: getRequestId() ?? null,
+    // Plain JSON (dates as ISO strings): hashed exactly as it is stored
+    diff: diff
+      ? (JSON.parse(JSON.stringify({ before: diff.before, after: diff.after, changes: diff.changes })) as Prisma.InputJsonObject)
+      : null,
+    fieldsChanged: diff?.fieldsChanged ?? [],
+    revertedToAuditId: revertedToAuditId ?? null,
+    ...getRequestDetails(),
+  };
+
+  const tx = getTransaction();
+  const pending = tx && pendingAudits.get(tx);
+  if (pending) {
+    pending.push(entry);
+  } else if (tx) {
+    const queue = [entry];
+    pendingAudits.set(tx, queue);
+    beforeCommit(() => appendToChain(queue));
+  } else {
+    await runInTransaction(() => appendToChain([entry]));
+  }
 
   // Log the audit event
   logger.auditLog({
@@ -68,19 +176,415 @@ export async function createAuditLog(params: CreateAuditParams): Promise<AuditLo
     actorId,
   });
 
-  return auditLog as AuditLog;
+  return { id: entry.id };
 }
 
 /**
  * Find audit log by ID
  */
 export async function findAuditById(id: string): Promise<AuditLog | null> {
-  const audit = await prisma.auditLog.findUnique({
+  const audit = await db().auditLog.findUnique({
     where: { id },
   });
   return audit as AuditLog | null;
 }
 
+/**
+ * Find the first chain entry at or after a point in time
+ */
+export async function findFirstChainEntry(from: Date): Promise<AuditLog | null> {
+  const audit = await db().auditLog.findFirst({
+    where: { timestamp: { gte: from } },
+    orderBy: { sequence: 'asc' },
+  });
+  return audit as AuditLog | null;
+}
+
+/**
+ * Find the last chain entry at or before a point in time (or the chain head)
+ */
+export async function findLastChainEntry(to?: Date): Promise<AuditLog | null> {
+  const audit = await db().auditLog.findFirst({
+    where: to ? { timestamp: { lte: to } } : {},
+    orderBy: { sequence: 'desc' },
+  });
+  return audit as AuditLog | null;
+}
+
+/**
+ * Link of the newest entry in the chain, including entries removed by the retention sweeper
+ */
+export async function findChainHead(): Promise<AuditChainLink | null> {
+  const [entry, link] = await Promise.all([
+    db().auditLog.findFirst({ orderBy: { sequence: 'desc' } }),
+    db().auditChainLink.findFirst({ orderBy: { sequence: 'desc' } }),
+  ]);
+  return newestLink(entry ? toChainLink(entry as AuditLog) : null, link);
+}
+
+/**
+ * Link of the chain entry right before a sequence number (in the table or removed)
+ */
+export async function findChainPredecessor(sequence: number): Promise<AuditChainLink | null> {
+  const [entry, link] = await Promise.all([
+    db().auditLog.findFirst({ where: { sequence: { lt: sequence } }, orderBy: { sequence: 'desc' } }),
+    db().auditChainLink.findFirst({ where: { sequence: { lt: sequence } }, orderBy: { sequence: 'desc' } }),
+  ]);
+  return newestLink(entry ? toChainLink(entry as AuditLog) : null, link);
+}
+
+/**
+ * Chain link of an audit entry
+ */
+export function toChainLink(entry: AuditLog): AuditChainLink {
+  return {
+    sequence: entry.sequence,
+    auditId: entry.id,
+    timestamp: entry.timestamp,
+    entity: entry.entity,
+    prevHash: entry.prevHash ?? null,
+    hash: entry.hash ?? null,
+  };
+}
+
+/**
+ * The later of two chain links
+ */
+function newestLink(a: AuditChainLink | null, b: AuditChainLink | null): AuditChainLink | null {
+  if (!a || !b) return a ?? b;
+  return a.sequence >= b.sequence ? a : b;
+}
+
+/**
+ * Find a chain entry by sequence number
+ */
+export async function findAuditBySequence(sequence: number): Promise<AuditLog | null> {
+  const audit = await db().auditLog.findUnique({
+    where: { sequence },
+  });
+  return audit as AuditLog | null;
+}
+
+/**
+ * Find a batch of chain entries in chain order (keyset on sequence)
+ */
+export async function findChainBatch(
+  fromSequence: number,
+  toSequence: number,
+  limit: number
+): Promise<AuditLog[]> {
+  const items = await db().auditLog.findMany({
+    where: { sequence: { gte: fromSequence, lte: toSequence } },
+    orderBy: { sequence: 'asc' },
+    take: limit,
+  });
+  return items as AuditLog[];
+}
+
+/**
+ * Find a batch of links of removed entries in chain order
+ */
+export async function findArchivedLinks(
+  fromSequence: number,
+  toSequence: number,
+  limit: number
+): Promise<AuditChainLink[]> {
+  return db().auditChainLink.findMany({
+    where: { sequence: { gte: fromSequence, lte: toSequence } },
+    orderBy: { sequence: 'asc' },
+    take: limit,
+  });
+}
+
+/**
+ * Find the link of a removed entry by sequence number
+ */
+export async function findArchivedLinkBySequence(sequence: number): Promise<AuditChainLink | null> {
+  return db().auditChainLink.findUnique({
+    where: { sequence },
+  });
+}
+
+/**
+ * Find the oldest entries of an entity written before a cutoff, in chain order.
+ * Entries re-imported from an archive are left alone, and so are 'erase'
+ * entries (the entries they scrubbed are verified against them).
+ */
+export async function findExpiredAudits(entity: string, cutoff: Date, limit: number): Promise<AuditLog[]> {
+  const items = await db().auditLog.findMany({
+    where: {
+      entity,
+      timestamp: { lt: cutoff },
+      restoredFromArchive: null,
+      action: { not: 'erase' },
+    },
+    orderBy: { sequence: 'asc' },
+    take: limit,
+  });
+  return items as AuditLog[];
+}
+
+/**
+ * Remove audit entries from the table, keeping their chain links.
+ * Fails if another sweeper removed any of them first (duplicate link).
+ */
+export async function removeAudits(entries: AuditLog[], archiveIds: Map<string, string>): Promise<number> {
+  await db().auditChainLink.createMany({
+    data: entries.map((entry) => ({
+      ...toChainLink(entry),
+      archiveId: archiveIds.get(entry.id) ?? null,
+    })),
+  });
+
+  const { count } = await db().auditLog.deleteMany({
+    where: { id: { in: entries.map((entry) => entry.id) } },
+  });
+  return count;
+}
+
+/**
+ * Re-insert archived entries (with their original IDs and chain fields).
+ * Entries already in the table are skipped.
+ */
+export async function insertRestoredAudits(
+  entries: (Omit<Prisma.AuditLogCreateManyInput, 'diff' | 'fieldsChanged'> & {
+    diff: AuditDiff | null;
+    fieldsChanged: string[];
+  })[],
+  archiveId: string
+): Promise<number> {
+  const { count } = await db().auditLog.createMany({
+    data: entries.map(({ diff, ...entry }) => ({
+      ...entry,
+      diff: diff ? (diff as unknown as Prisma.InputJsonObject) : Prisma.DbNull,
+      changedFields: getChangedFields(entry.fieldsChanged),
+      restoredFromArchive: archiveId,
+    })),
+    skipDuplicates: true,
+  });
+  return count;
+}
+
+/**
+ * Remove the entries re-imported from an archive
+ */
+export async function deleteRestoredAudits(archiveId: string): Promise<number> {
+  const { count } = await db().auditLog.deleteMany({
+    where: { restoredFromArchive: archiveId },
+  });
+  return count;
+}
+
+/**
+ * Count re-imported entries per archive
+ */
+export async function countRestoredAudits(): Promise<Map<string, number>> {
+  const groups = await db().auditLog.groupBy({
+    by: ['restoredFromArchive'],
+    where: { restoredFromArchive: { not: null } },
+    _count: { _all: true },
+  });
+  return new Map(groups.map((group) => [group.restoredFromArchive!, group._count._all]));
+}
+
+/**
+ * Find the audit trail of one entity in chronological order,
+ * optionally up to (and including) a point in time
+ */
+export async function findEntityAuditTrail(
+  entity: string,
+  entityId: string,
+  until?: Date
+): Promise<AuditLog[]> {
+  const items = await db().auditLog.findMany({
+    where: {
+      entity,
+      entityId,
+      ...(until && { timestamp: { lte: until } }),
+    },
+    orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+    include: {
+      actor: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
+    },
+  });
+  return items as unknown as AuditLog[];
+}
+
+/**
+ * Find all audit entries of a request in chronological order
+ */
+export async function findAuditsByRequestId(requestId: string): Promise<AuditLog[]> {
+  const items = await db().auditLog.findMany({
+    where: { requestId },
+    orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+  });
+  return items as AuditLog[];
+}
+
+/**
+ * Find the entries a user made or that concern their account, in chain order
+ */
+export async function findDataSubjectAudits(userId: string): Promise<AuditLog[]> {
+  const items = await db().auditLog.findMany({
+    where: {
+      OR: [{ actorId: userId }, { entity: 'User', entityId: userId }],
+    },
+    orderBy: { sequence: 'asc' },
+  });
+  return items as AuditLog[];
+}
+
+/**
+ * Find the reads a user made, oldest first
+ */
+export async function findDataSubjectReads(userId: string): Promise<AuditRead[]> {
+  return db().auditRead.findMany({
+    where: { actorId: userId },
+    orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+  });
+}
+
+/**
+ * Find the entries that may hold a user's personal data: those on the user's
+ * account or made by them (diff and request details), and any whose diff
+ * mentions their ID (e.g. a book's createdBy) or email. In chain order.
+ */
+export async function findAuditsWithUserData(user: { id: string; email: string }): Promise<AuditLog[]> {
+  const needles = [user.id, user.email].map((needle) => needle.toLowerCase());
+  const rows = await db().$queryRaw<{ id: string }[]>`
+    SELECT "id" FROM "AuditLog"
+    WHERE ("entity" = 'User' AND "entityId" = ${user.id})
+      OR ("actorId" = ${user.id} AND ("ip" IS NOT NULL OR "userAgent" IS NOT NULL))
+      OR (("diff" IS NOT NULL OR "legacyDiff" IS NOT NULL) AND EXISTS (
+          SELECT 1 FROM unnest(${needles}::text[]) AS needle
+          WHERE strpos(lower("diff"::text), needle) > 0
+             OR strpos(lower("legacyDiff"), needle) > 0))`;
+
+  const items = await db().auditLog.findMany({
+    where: { id: { in: rows.map((row) => row.id) } },
+    orderBy: { sequence: 'asc' },
+  });
+  return items as AuditLog[];
+}
+
+/**
+ * Replace the diffs and request details of entries scrubbed by an erasure.
+ * Their hash is kept (it still links the chain); `erasedBy` points at the
+ * erasure entry and `erasedDataHash` is the hash of the original values.
+ */
+export async function scrubAudits(
+  entries: {
+    id: string;
+    diff: AuditDiff | null;
+    legacyDiff: string | null;
+    ip: string | null;
+    userAgent: string | null;
+    erasedDataHash: string;
+  }[],
+  erasedBy: string
+): Promise<void> {
+  for (const { id, diff, legacyDiff, ip, userAgent, erasedDataHash } of entries) {
+    await db().auditLog.update({
+      where: { id },
+      data: {
+        diff: diff ? (diff as unknown as Prisma.InputJsonObject) : Prisma.DbNull,
+        legacyDiff,
+        ip,
+        userAgent,
+        erasedBy,
+        erasedDataHash,
+      },
+    });
+  }
+}
+
+/**
+ * Clear the client IP and user agent of the reads a user made
+ */
+export async function clearReadDetails(userId: string): Promise<void> {
+  await db().auditRead.updateMany({
+    where: { actorId: userId },
+    data: { ip: null, userAgent: null },
+  });
+}
+
+/**
+ * Erased hashes recorded by 'erase' entries (on users), by erase entry ID and
+ * then by the ID of the entry they scrubbed
+ */
+export async function findErasedHashes(ids: string[]): Promise<Map<string, Map<string, string>>> {
+  const erasures = new Map<string, Map<string, string>>();
+  if (ids.length === 0) return erasures;
+
+  const items = await db().auditLog.findMany({
+    where: { id: { in: ids }, entity: 'User', action: 'erase' },
+    select: { id: true, diff: true },
+  });
+
+  for (const item of items) {
+    const hashes = (item.diff as AuditDiff | null)?.after?.erasedHashes;
+    const entries = hashes !== null && typeof hashes === 'object' ? Object.entries(hashes) : [];
+    erasures.set(
+      item.id,
+      new Map(entries.filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+    );
+  }
+  return erasures;
+}
+
+/**
+ * Find changes to an entity from other requests at or after a point in time
+ */
+export async function findEntityChangesSince(
+  entity: string,
+  entityId: string,
+  since: Date,
+  excludeRequestId: string
+): Promise<AuditLog[]> {
+  const items = await db().auditLog.findMany({
+    where: {
+      entity,
+      entityId,
+      timestamp: { gte: since },
+      // Reads, reveals and security events don't change the entity
+      action: { notIn: NON_MUTATING_ACTIONS },
+      OR: [{ requestId: null }, { requestId: { not: excludeRequestId } }],
+    },
+    orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+  });
+  return items as AuditLog[];
+}
+
+/**
+ * JSON values a filter value matches: the string itself, plus the number or
+ * boolean it spells (so `changedTo=3` finds both 3 and "3")
+ */
+function diffValueCandidates(value: string): Prisma.InputJsonValue[] {
+  const candidates: Prisma.InputJsonValue[] = [value];
+  if (value === 'true' || value === 'false') {
+    candidates.push(value === 'true');
+  } else if (value.trim() !== '' && Number.isFinite(Number(value))) {
+    candidates.push(Number(value));
+  }
+  return candidates;
+}
+
+/**
+ * Condition on a recorded value: `before.<path>` or `after.<path>` of the diff
+ */
+function diffValueCondition(snapshot: 'before' | 'after', path: string, value: string): Prisma.AuditLogWhereInput {
+  const jsonPath = [snapshot, ...path.split('.')];
+  return {
+    OR: diffValueCandidates(value).map((candidate) => ({ diff: { path: jsonPath, equals: candidate } })),
+  };
+}
+
 /**
  * Find audit logs with filters and pagination
  */
@@ -107,14 +611,36 @@ export async function findAuditLogs(
     where.actorId = filters.actorId;
   }
 
+  // One or more comma-separated actions
   if (filters.action) {
-    where.action = filters.action;
+    where.action = { in: filters.action.split(',') };
   }
 
   if (filters.requestId) {
     where.requestId = filters.requestId;
   }
 
+  // Request details
+  if (filters.ip) {
+    where.ip = filters.ip;
+  }
+
+  if (filters.userAgent) {
+    where.userAgent = { contains: filters.userAgent, mode: 'insensitive' };
+  }
+
+  if (filters.method) {
+    where.method = filters.method;
+  }
+
+  if (filters.route) {
+    where.route = filters.route;
+  }
+
+  if (filters.authMethod) {
+    where.authMethod = filters.authMethod;
+  }
+
   // Date range filters
   if (filters.from || filters.to) {
     where.timestamp = {};
@@ -126,12 +652,24 @@ export async function findAuditLogs(
     }
   }
 
-  // Fields changed filter (partial match)
+  // Fields changed filter (any of the given fields or leaf paths; a field
+  // matches changes anywhere under it, e.g. `authors` matches `authors.0.name`)
   if (filters.fieldsChanged) {
     const fields = filters.fieldsChanged.split(',').map(f => f.trim());
-    where.OR = fields.map(field => ({
-      fieldsChanged: { contains: field },
-    }));
+    where.OR = [{ changedFields: { hasSome: fields } }, { fieldsChanged: { hasSome: fields } }];
+  }
+
+  // Changed from / to a value: the field changed and its recorded before /
+  // after value matches
+  if (filters.changedField) {
+    const conditions: Prisma.AuditLogWhereInput[] = [{ fieldsChanged: { has: filters.changedField } }];
+    if (filters.changedFrom !== undefined) {
+      conditions.push(diffValueCondition('before', filters.changedField, filters.changedFrom));
+    }
+    if (filters.changedTo !== undefined) {
+      conditions.push(diffValueCondition('after', filters.changedField, filters.changedTo));
+    }
+    where.AND = conditions;
   }
 
   // Cursor pagination
@@ -159,7 +697,7 @@ export async function findAuditLogs(
     : where;
 
   // Fetch items (one extra to check for more)
-  const items = await prisma.auditLog.findMany({
+  const items = await db().auditLog.findMany({
     where: finalWhere,
     orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
     take: limit + 1,
@@ -196,85 +734,217 @@ export async function findAuditLogs(
 }
 
 /**
- * Helper function to record entity creation
+ * Record that a user viewed a record, unless they already did within the
+ * deduplication window. Reads are kept out of the hash chain. Returns
+ * whether the read was recorded.
  */
-export async function recordCreate(
-  entity: string,
-  entityId: string,
-  data: Record<string, unknown>
-): Promise<void> {
-  const actorId = getUserId();
-  if (!actorId) return;
+export async function createAuditRead(
+  read: { entity: string; entityId: string; actorId: string },
+  dedupWindowSeconds: number
+): Promise<boolean> {
+  if (dedupWindowSeconds > 0) {
+    const recent = await db().auditRead.findFirst({
+      where: { ...read, timestamp: { gte: new Date(Date.now() - dedupWindowSeconds * 1000) } },
+      select: { id: true },
+    });
+    if (recent) return false;
+  }
 
-  await createAuditLog({
-    entity,
-    entityId,
-    action: 'create',
-    actorId,
-    after: data,
+  await db().auditRead.create({
+    data: {
+      ...read,
+      requestId: getRequestId() ?? null,
+      ...getRequestDetails(),
+    },
   });
+  return true;
 }
 
 /**
- * Helper function to record entity update
+ * Count the entries an actor made since a point in time (from one client IP when given)
  */
-export async function recordUpdate(
-  entity: string,
-  entityId: string,
-  before: Record<string, unknown>,
-  after: Record<string, unknown>
-): Promise<void> {
-  const actorId = getUserId();
-  if (!actorId) return;
-
-  await createAuditLog({
-    entity,
-    entityId,
-    action: 'update',
-    actorId,
-    before,
-    after,
+export async function countRecentEvents(params: { actorId: string; ip?: string; since: Date }): Promise<number> {
+  return db().auditLog.count({
+    where: {
+      actorId: params.actorId,
+      timestamp: { gte: params.since },
+      ...(params.ip && { ip: params.ip }),
+    },
   });
 }
 
 /**
- * Helper function to record entity deletion
+ * Find recorded reads with filters and pagination (newest first)
  */
-export async function recordDelete(
-  entity: string,
-  entityId: string,
-  data: Record<string, unknown>
-): Promise<void> {
-  const actorId = getUserId();
-  if (!actorId) return;
+export async function findAuditReads(filters: AuditReadFilterParams): Promise<PaginatedResult<AuditRead>> {
+  const limit = Math.min(
+    parseInt(filters.limit || String(config.pagination.defaultLimit), 10),
+    config.pagination.maxLimit
+  );
 
-  await createAuditLog({
-    entity,
-    entityId,
-    action: 'delete',
-    actorId,
-    before: data,
+  const where: Prisma.AuditReadWhereInput = {};
+
+  if (filters.entity) {
+    where.entity = filters.entity;
+  }
+
+  if (filters.entityId) {
+    where.entityId = filters.entityId;
+  }
+
+  if (filters.actorId) {
+    where.actorId = filters.actorId;
+  }
+
+  if (filters.from || filters.to) {
+    where.timestamp = {};
+    if (filters.from) {
+      where.timestamp.gte = new Date(filters.from);
+    }
+    if (filters.to) {
+      where.timestamp.lte = new Date(filters.to);
+    }
+  }
+
+  // Cursor pagination
+  const cursorData = filters.cursor ? decodeCursor(filters.cursor) : null;
+  const cursorCondition: Prisma.AuditReadWhereInput | undefined = cursorData
+    ? {
+        OR: [
+          { timestamp: { lt: new Date(cursorData.timestamp || '') } },
+          { timestamp: new Date(cursorData.timestamp || ''), id: { lt: cursorData.id } },
+        ],
+      }
+    : undefined;
+
+  // Fetch items (one extra to check for more)
+  const items = await db().auditRead.findMany({
+    where: cursorCondition ? { AND: [where, cursorCondition] } : where,
+    orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
+    include: {
+      actor: {
+        select: { id: true, name: true, email: true },
+      },
+    },
   });
+
+  return createPaginatedResponse(items, limit, true);
 }
 
+// SQL expression of each stats dimension (a = AuditLog, f = one changed field)
+const STATS_BUCKETS: Record<AuditStatsGroupBy, Prisma.Sql> = {
+  action: Prisma.sql`a."action"`,
+  entity: Prisma.sql`a."entity"`,
+  actorId: Prisma.sql`a."actorId"`,
+  field: Prisma.sql`f.field`,
+  hour: Prisma.sql`date_trunc('hour', a."timestamp")`,
+  day: Prisma.sql`date_trunc('day', a."timestamp")`,
+  week: Prisma.sql`date_trunc('week', a."timestamp")`,
+};
+
+const TIME_BUCKETS: AuditStatsGroupBy[] = ['hour', 'day', 'week'];
+
 /**
- * Helper function to record entity restore
+ * Escape LIKE wildcards in a search term
  */
-export async function recordRestore(
-  entity: string,
-  entityId: string,
-  before: Record<string, unknown>,
-  after: Record<string, unknown>
-): Promise<void> {
-  const actorId = getUserId();
-  if (!actorId) return;
+function escapeLike(term: string): string {
+  return term.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
 
-  await createAuditLog({
-    entity,
-    entityId,
-    action: 'restore',
-    actorId,
-    before,
-    after,
-  });
+/**
+ * SQL conditions for the audit list filters (same semantics as findAuditLogs)
+ */
+function buildAuditFilterSql(filters: AuditFilterParams): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [Prisma.sql`TRUE`];
+
+  if (filters.entity) conditions.push(Prisma.sql`a."entity" = ${filters.entity}`);
+  if (filters.entityId) conditions.push(Prisma.sql`a."entityId" = ${filters.entityId}`);
+  if (filters.actorId) conditions.push(Prisma.sql`a."actorId" = ${filters.actorId}`);
+  if (filters.action) conditions.push(Prisma.sql`a."action" IN (${Prisma.join(filters.action.split(','))})`);
+  if (filters.requestId) conditions.push(Prisma.sql`a."requestId" = ${filters.requestId}`);
+  if (filters.ip) conditions.push(Prisma.sql`a."ip" = ${filters.ip}`);
+  if (filters.userAgent) conditions.push(Prisma.sql`a."userAgent" ILIKE ${`%${escapeLike(filters.userAgent)}%`}`);
+  if (filters.method) conditions.push(Prisma.sql`a."method" = ${filters.method}`);
+  if (filters.route) conditions.push(Prisma.sql`a."route" = ${filters.route}`);
+  if (filters.authMethod) conditions.push(Prisma.sql`a."authMethod" = ${filters.authMethod}`);
+  if (filters.from) conditions.push(Prisma.sql`a."timestamp" >= ${new Date(filters.from)}`);
+  if (filters.to) conditions.push(Prisma.sql`a."timestamp" <= ${new Date(filters.to)}`);
+
+  // Fields changed filter (any of the given fields or leaf paths)
+  if (filters.fieldsChanged) {
+    const fields = filters.fieldsChanged.split(',').map((f) => f.trim());
+    conditions.push(Prisma.sql`(a."changedFields" && ${fields}::text[] OR a."fieldsChanged" && ${fields}::text[])`);
+  }
+
+  // Changed from / to a value
+  if (filters.changedField) {
+    conditions.push(Prisma.sql`a."fieldsChanged" @> ${[filters.changedField]}::text[]`);
+    for (const [snapshot, value] of [['before', filters.changedFrom], ['after', filters.changedTo]] as const) {
+      if (value === undefined) continue;
+      const jsonPath = [snapshot, ...filters.changedField.split('.')];
+      const candidates = diffValueCandidates(value).map((candidate) => Prisma.sql`${JSON.stringify(candidate)}::jsonb`);
+      conditions.push(Prisma.sql`a."diff" #> ${jsonPath}::text[] IN (${Prisma.join(candidates)})`);
+    }
+  }
+
+  return Prisma.join(conditions, ' AND ');
+}
+
+/**
+ * Count audit entries matching the filters, grouped in the database.
+ * With groupBy=field, fieldsChanged is split into one row per changed field,
+ * so the buckets may add up to more than the total number of entries.
+ */
+export async function aggregateAuditLogs(
+  filters: AuditFilterParams,
+  groupBy: AuditStatsGroupBy
+): Promise<{ total: number; buckets: AuditStatsBucket[] }> {
+  const where = buildAuditFilterSql(filters);
+  const bucket = STATS_BUCKETS[groupBy];
+  const fieldJoin = groupBy === 'field'
+    ? Prisma.sql`CROSS JOIN LATERAL unnest(a."fieldsChanged") AS f(field)`
+    : Prisma.empty;
+  const actorJoin = groupBy === 'actorId'
+    ? Prisma.sql`LEFT JOIN "User" u ON u."id" = a."actorId"`
+    : Prisma.empty;
+  const actorColumns = groupBy === 'actorId'
+    ? Prisma.sql`, u."name" AS "actorName", u."email" AS "actorEmail"`
+    : Prisma.empty;
+  const actorGroup = groupBy === 'actorId' ? Prisma.sql`, u."name", u."email"` : Prisma.empty;
+  // Time series in chronological order, other dimensions by count
+  const orderBy = TIME_BUCKETS.includes(groupBy)
+    ? Prisma.sql`ORDER BY key ASC`
+    : Prisma.sql`ORDER BY count DESC, key ASC`;
+
+  const rows = await db().$queryRaw<
+    { key: string | Date; count: number; actorName?: string | null; actorEmail?: string | null }[]
+  >`
+    SELECT ${bucket} AS key, COUNT(*)::int AS count ${actorColumns}
+    FROM "AuditLog" a
+    ${fieldJoin}
+    ${actorJoin}
+    WHERE ${where}
+    GROUP BY ${bucket} ${actorGroup}
+    ${orderBy}
+  `;
+
+  // Field buckets overlap (an entry counts once per changed field): count entries separately
+  let total = rows.reduce((sum, row) => sum + row.count, 0);
+  if (groupBy === 'field') {
+    const [{ count }] = await db().$queryRaw<{ count: number }[]>`
+      SELECT COUNT(*)::int AS count FROM "AuditLog" a WHERE ${where}`;
+    total = count;
+  }
+
+  return {
+    total,
+    buckets: rows.map((row) => ({
+      key: row.key instanceof Date ? row.key.toISOString() : row.key,
+      count: row.count,
+      ...(groupBy === 'actorId' && {
+        actor: row.actorName ? { name: row.actorName, email: row.actorEmail ?? '' } : null,
+      }),
+    })),
+  };
 }
@@ -0,0 +1,177 @@
+import { Prisma } from '@prisma/client';
+import { Author, AuthorFilterParams, CreateAuthorDto, UpdateAuthorDto } from '../types';
+import {
+  buildKeysetCondition,
+  decodeCursor,
+  encodeCursor,
+  PaginatedResult,
+  PaginationParams,
+} from '../utils/pagination';
+import { config } from '../config';
+import { getTransaction } from '../utils/transaction';
+import { prisma, TransactionClient } from '../utils/prisma';
+
+// Active transaction (see runInTransaction) or the default client
+const db = (): TransactionClient => getTransaction() ?? prisma;
+
+/**
+ * Author Repository
+ *
+ * Handles author CRUD operations. Writes are audited by the audit client extension.
+ * Uses soft delete, like books.
+ */
+
+/**
+ * Find author by ID
+ */
+export async function findAuthorById(id: string, includeDeleted = false): Promise<Author | null> {
+  const author = await db().author.findFirst({
+    where: {
+      id,
+      ...(includeDeleted ? {} : { isDeleted: false }),
+    },
+  });
+  return author as Author | null;
+}
+
+/**
+ * Find active authors by IDs
+ */
+export async function findAuthorsByIds(ids: string[]): Promise<Author[]> {
+  const authors = await db().author.findMany({
+    where: { id: { in: ids }, isDeleted: false },
+  });
+  return authors as Author[];
+}
+
+/**
+ * Find an active author by exact name (case-insensitive)
+ */
+export async function findAuthorByName(name: string): Promise<Author | null> {
+  const author = await db().author.findFirst({
+    where: {
+      name: { equals: name, mode: 'insensitive' },
+      isDeleted: false,
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+  return author as Author | null;
+}
+
+/**
+ * Find authors with search and pagination, ordered by name
+ */
+export async function findAuthors(
+  params: PaginationParams,
+  filters: AuthorFilterParams = {}
+): Promise<PaginatedResult<Author>> {
+  const { limit, cursor } = params;
+  const takeLimit = Math.min(limit, config.pagination.maxLimit);
+
+  // Build where clause
+  const where: Prisma.AuthorWhereInput = { isDeleted: false };
+
+  if (filters.q) {
+    where.name = { contains: filters.q, mode: 'insensitive' };
+  }
+
+  // Cursor pagination
+  let cursorCondition: Prisma.AuthorWhereInput | undefined;
+  if (cursor) {
+    const cursorData = decodeCursor(cursor);
+    const name = cursorData?.values?.name;
+    if (cursorData && typeof name === 'string') {
+      cursorCondition = buildKeysetCondition(
+        { field: 'name', direction: 'asc' },
+        name,
+        cursorData.id
+      ) as Prisma.AuthorWhereInput;
+    }
+  }
+
+  // Combine conditions
+  const finalWhere: Prisma.AuthorWhereInput = cursorCondition
+    ? { AND: [where, cursorCondition] }
+    : where;
+
+  // Fetch authors (one extra for pagination)
+  const authors = await db().author.findMany({
+    where: finalWhere,
+    orderBy: [{ name: 'asc' }, { id: 'asc' }],
+    take: takeLimit + 1,
+  });
+
+  // Check for more items
+  const hasMore = authors.length > takeLimit;
+  const resultItems = hasMore ? authors.slice(0, takeLimit) : authors;
+
+  // Generate next cursor
+  let nextCursor: string | undefined;
+  if (hasMore && resultItems.length > 0) {
+    const lastItem = resultItems[resultItems.length - 1];
+    nextCursor = encodeCursor({
+      id: lastItem.id,
+      sort: 'name',
+      values: { name: lastItem.name },
+    });
+  }
+
+  return {
+    items: resultItems as Author[],
+    nextCursor,
+    hasMore,
+  };
+}
+
+/**
+ * Count active books crediting an author
+ */
+export async function countActiveBooksForAuthor(authorId: string): Promise<number> {
+  return db().book.count({
+    where: {
+      isDeleted: false,
+      contributors: { some: { authorId } },
+    },
+  });
+}
+
+/**
+ * Create a new author
+ */
+export async function createAuthor(data: CreateAuthorDto): Promise<Author> {
+  const author = await db().author.create({ data });
+  return author as Author;
+}
+
+/**
+ * Update an author
+ */
+export async function updateAuthor(id: string, data: UpdateAuthorDto): Promise<Author> {
+  const author = await db().author.update({
+    where: { id },
+    data,
+  });
+  return author as Author;
+}
+
+/**
+ * Soft delete an author
+ */
+export async function deleteAuthor(id: string): Promise<Author> {
+  const author = await db().author.update({
+    where: { id },
+    data: { isDeleted: true },
+  });
+  return author as Author;
+}
+
+/**
+ * Restore a soft-deleted author
+ */
+export async function restoreAuthor(id: string): Promise<Author> {
+  const author = await db().author.update({
+    where: { id },
+    data: { isDeleted: false },
+  });
+  return author as Author;
+}
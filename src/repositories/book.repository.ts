@@ -1,23 +1,105 @@
-import { PrismaClient, Prisma } from '@prisma/client';
-import { Book, CreateBookDto, UpdateBookDto } from '../types';
-import { decodeCursor, encodeCursor, PaginatedResult, PaginationParams } from '../utils/pagination';
-import { recordCreate, recordUpdate, recordDelete, recordRestore } from './audit.repository';
+import { Prisma } from '@prisma/client';
+import {
+  AuthorCredit,
+  Book,
+  BookFilterParams,
+  BookSortField,
+  BookStatus,
+  WorkflowTransition,
+} from '../types';
+import {
+  buildKeysetCondition,
+  decodeCursor,
+  encodeCursor,
+  PaginatedResult,
+  PaginationParams,
+  parseSort,
+} from '../utils/pagination';
 import { config } from '../config';
+import { getTransaction, runInTransaction } from '../utils/transaction';
+import { withAuditOptions } from '../utils/audit-extension';
+import { prisma, TransactionClient } from '../utils/prisma';
 
-const prisma = new PrismaClient();
+// Active transaction (see runInTransaction) or the default client
+const db = (): TransactionClient => getTransaction() ?? prisma;
 
 /**
  * Book Repository
  * 
  * Handles all book CRUD operations with integrated audit logging.
  * Uses soft delete for better auditability.
+ *
+ * Each write runs in one interactive transaction: the before snapshot, the
+ * mutation and the audit entry commit together, and a failed audit write
+ * rolls the mutation back.
  */
 
+/**
+ * Book fields as stored. `authors` is the display byline built from the credits,
+ * `publishedBy` the name of the linked publisher.
+ */
+export interface BookRecordData {
+  title: string;
+  authors: string;
+  publishedBy: string;
+  publisherId: string;
+  isbn10?: string | null;
+  isbn13?: string | null;
+}
+
+/**
+ * Workflow fields, normally only written by transitionBook
+ */
+export interface BookWorkflowData {
+  status: BookStatus;
+  scheduledAt: Date | null;
+  publishedAt: Date | null;
+}
+
+// Ordered author credits returned with every book
+const contributorsInclude = {
+  orderBy: { position: 'asc' },
+  select: {
+    authorId: true,
+    role: true,
+    position: true,
+    author: {
+      select: { id: true, name: true },
+    },
+  },
+} satisfies Prisma.Book$contributorsArgs;
+
+/**
+ * Build nested create input for author credits, keeping their order
+ */
+function buildContributorsCreate(credits: AuthorCredit[]) {
+  return credits.map((credit, position) => ({
+    authorId: credit.authorId,
+    role: credit.role,
+    position,
+  }));
+}
+
+/**
+ * Run a version-guarded write.
+ * Returns null when no row matched, i.e. the book's version moved on concurrently.
+ */
+async function guardVersion<T>(write: () => Promise<T>): Promise<T | null> {
+  try {
+    return await write();
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      return null;
+    }
+    throw error;
+  }
+}
+
 /**
  * Find book by ID
  */
 export async function findBookById(id: string, includeDeleted = false): Promise<Book | null> {
-  const book = await prisma.book.findFirst({
+  const book = await db().book.findFirst({
     where: {
       id,
       ...(includeDeleted ? {} : { isDeleted: false }),
@@ -29,40 +111,160 @@ export async function findBookById(id: string, includeDeleted = false): Promise<
       updatedBy: {
         select: { id: true, name: true },
       },
+      contributors: contributorsInclude,
+      publisher: {
+        select: { id: true, name: true },
+      },
     },
   });
   return book as Book | null;
 }
 
 /**
- * Find all books with pagination
+ * Find book by normalized ISBN-13
+ */
+export async function findBookByIsbn13(isbn13: string, includeDeleted = false): Promise<Book | null> {
+  const book = await db().book.findFirst({
+    where: {
+      isbn13,
+      ...(includeDeleted ? {} : { isDeleted: false }),
+    },
+    include: {
+      createdBy: {
+        select: { id: true, name: true },
+      },
+      updatedBy: {
+        select: { id: true, name: true },
+      },
+      contributors: contributorsInclude,
+      publisher: {
+        select: { id: true, name: true },
+      },
+    },
+  });
+  return book as Book | null;
+}
+
+/**
+ * Find the books a user created or last updated, deleted ones included, oldest first
+ */
+export async function findBooksByUser(userId: string): Promise<Book[]> {
+  const books = await db().book.findMany({
+    where: {
+      OR: [{ createdById: userId }, { updatedById: userId }],
+    },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    include: {
+      createdBy: {
+        select: { id: true, name: true },
+      },
+      updatedBy: {
+        select: { id: true, name: true },
+      },
+      contributors: contributorsInclude,
+      publisher: {
+        select: { id: true, name: true },
+      },
+    },
+  });
+  return books as Book[];
+}
+
+// Default list order: newest first
+export const DEFAULT_BOOK_SORT = '-createdAt';
+
+// Sort fields stored as DateTime (cursor values are ISO strings)
+const DATE_SORT_FIELDS: BookSortField[] = ['createdAt', 'updatedAt'];
+
+/**
+ * Build where clause from book list filters
+ */
+function buildBookWhere(filters: BookFilterParams, includeDeleted: boolean): Prisma.BookWhereInput {
+  const where: Prisma.BookWhereInput = includeDeleted ? {} : { isDeleted: false };
+
+  // Case-insensitive search over title, authors and publisher
+  if (filters.q) {
+    where.OR = [
+      { title: { contains: filters.q, mode: 'insensitive' } },
+      { authors: { contains: filters.q, mode: 'insensitive' } },
+      { publishedBy: { contains: filters.q, mode: 'insensitive' } },
+    ];
+  }
+
+  if (filters.createdById) {
+    where.createdById = filters.createdById;
+  }
+
+  if (filters.updatedById) {
+    where.updatedById = filters.updatedById;
+  }
+
+  if (filters.publisherId) {
+    where.publisherId = filters.publisherId;
+  }
+
+  if (filters.status) {
+    where.status = filters.status;
+  }
+
+  // Books crediting a given author (any role)
+  if (filters.authorId) {
+    where.contributors = { some: { authorId: filters.authorId } };
+  }
+
+  // Date range filters
+  if (filters.createdFrom || filters.createdTo) {
+    where.createdAt = {};
+    if (filters.createdFrom) {
+      where.createdAt.gte = new Date(filters.createdFrom);
+    }
+    if (filters.createdTo) {
+      where.createdAt.lte = new Date(filters.createdTo);
+    }
+  }
+
+  if (filters.updatedFrom || filters.updatedTo) {
+    where.updatedAt = {};
+    if (filters.updatedFrom) {
+      where.updatedAt.gte = new Date(filters.updatedFrom);
+    }
+    if (filters.updatedTo) {
+      where.updatedAt.lte = new Date(filters.updatedTo);
+    }
+  }
+
+  return where;
+}
+
+/**
+ * Find all books with filters, sorting and pagination
+ *
+ * The cursor carries the sort param and the sort value of the last item,
+ * so pagination stays stable for any sort key.
  */
 export async function findBooks(
   params: PaginationParams,
+  filters: BookFilterParams = {},
   includeDeleted = false
 ): Promise<PaginatedResult<Book>> {
   const { limit, cursor } = params;
   const takeLimit = Math.min(limit, config.pagination.maxLimit);
+  const sort = filters.sort || DEFAULT_BOOK_SORT;
+  const sortSpec = parseSort(sort);
+  const sortField = sortSpec.field as BookSortField;
+  const isDateSort = DATE_SORT_FIELDS.includes(sortField);
 
   // Build where clause
-  const where: Prisma.BookWhereInput = includeDeleted ? {} : { isDeleted: false };
+  const where = buildBookWhere(filters, includeDeleted);
 
   // Cursor pagination
   let cursorCondition: Prisma.BookWhereInput | undefined;
   if (cursor) {
     const cursorData = decodeCursor(cursor);
-    if (cursorData) {
-      cursorCondition = {
-        OR: [
-          {
-            createdAt: { lt: new Date(cursorData.timestamp || '') },
-          },
-          {
-            createdAt: new Date(cursorData.timestamp || ''),
-            id: { lt: cursorData.id },
-          },
-        ],
-      };
+    const rawValue = cursorData?.values?.[sortField];
+    if (cursorData && rawValue !== undefined && rawValue !== null) {
+      const value = isDateSort ? new Date(String(rawValue)) : rawValue;
+      cursorCondition = buildKeysetCondition(sortSpec, value, cursorData.id) as Prisma.BookWhereInput;
     }
   }
 
@@ -72,9 +274,9 @@ export async function findBooks(
     : where;
 
   // Fetch books (one extra for pagination)
-  const books = await prisma.book.findMany({
+  const books = await db().book.findMany({
     where: finalWhere,
-    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    orderBy: [{ [sortField]: sortSpec.direction }, { id: sortSpec.direction }],
     take: takeLimit + 1,
     include: {
       createdBy: {
@@ -83,6 +285,10 @@ export async function findBooks(
       updatedBy: {
         select: { id: true, name: true },
       },
+      contributors: contributorsInclude,
+      publisher: {
+        select: { id: true, name: true },
+      },
     },
   });
 
@@ -94,9 +300,13 @@ export async function findBooks(
   let nextCursor: string | undefined;
   if (hasMore && resultItems.length > 0) {
     const lastItem = resultItems[resultItems.length - 1];
+    const lastValue = lastItem[sortField];
     nextCursor = encodeCursor({
       id: lastItem.id,
-      timestamp: lastItem.createdAt.toISOString(),
+      sort,
+      values: {
+        [sortField]: lastValue instanceof Date ? lastValue.toISOString() : lastValue,
+      },
     });
   }
 
@@ -111,67 +321,104 @@ export async function findBooks(
  * Create a new book
  */
 export async function createBook(
-  data: CreateBookDto,
+  data: BookRecordData,
+  credits: AuthorCredit[],
   userId: string
 ): Promise<Book> {
-  const book = await prisma.book.create({
+  const book = await db().book.create({
     data: {
       ...data,
       createdById: userId,
+      contributors: {
+        create: buildContributorsCreate(credits),
+      },
     },
     include: {
       createdBy: {
         select: { id: true, name: true },
       },
+      contributors: contributorsInclude,
+      publisher: {
+        select: { id: true, name: true },
+      },
     },
   });
 
-  // Record audit log
-  await recordCreate('Book', book.id, book as unknown as Record<string, unknown>);
-
   return book as Book;
 }
 
+/**
+ * Options for version-checked book writes
+ */
+export interface BookWriteOptions {
+  // Versions the client's If-Match allows; the write is refused for any other version
+  expectedVersions?: number[];
+  // Recorded on the audit entry when the write reverts to an earlier audited version
+  revertedToAuditId?: string;
+}
+
 /**
  * Update a book
+ *
+ * When credits are given, the book's author links are replaced. Workflow
+ * fields are only written here when undoing changes (change set rollback).
+ * Returns null if the version precondition fails or the book changed concurrently.
  */
 export async function updateBook(
   id: string,
-  data: UpdateBookDto,
-  userId: string
-): Promise<Book> {
-  // Get current state for audit
-  const before = await prisma.book.findUnique({ where: { id } });
-  if (!before) {
-    throw new Error('Book not found');
-  }
+  data: Partial<BookRecordData & BookWorkflowData>,
+  userId: string,
+  options: BookWriteOptions & { credits?: AuthorCredit[] } = {}
+): Promise<Book | null> {
+  return runInTransaction(async () => {
+    const { credits, expectedVersions, revertedToAuditId } = options;
 
-  // Update book
-  const book = await prisma.book.update({
-    where: { id },
-    data: {
-      ...data,
-      updatedById: userId,
-    },
-    include: {
-      createdBy: {
-        select: { id: true, name: true },
+    // Get current version
+    const before = await db().book.findUnique({ where: { id } });
+    if (!before) {
+      throw new Error('Book not found');
+    }
+
+    // If-Match precondition
+    if (expectedVersions && !expectedVersions.includes(before.version)) {
+      return null;
+    }
+
+    // Update book (the audit entry links to the reverted-to entry, if any)
+    const book = await guardVersion(() => withAuditOptions({ revertedToAuditId }, () => db().book.update({
+      where: { id, version: before.version },
+      data: {
+        version: { increment: 1 },
+        ...data,
+        updatedById: userId,
+        ...(credits && {
+          contributors: {
+            deleteMany: {},
+            create: buildContributorsCreate(credits),
+          },
+        }),
       },
-      updatedBy: {
-        select: { id: true, name: true },
+      include: {
+        createdBy: {
+          select: { id: true, name: true },
+        },
+        updatedBy: {
+          select: { id: true, name: true },
+        },
+        contributors: contributorsInclude,
+        publisher: {
+          select: { id: true, name: true },
+        },
       },
-    },
-  });
+    })));
 
-  // Record audit log
-  await recordUpdate(
-    'Book',
-    book.id,
-    before as unknown as Record<string, unknown>,
-    book as unknown as Record<string, unknown>
-  );
+    // Version moved on between read and write
+    if (!book) {
+      return null;
+    }
 
-  return book as Book;
+    return book as Book;
+  });
 }
 
 /**
@@ -182,71 +429,159 @@ export async function updateBook(
  * 2. Allows for data recovery
  * 3. Better for audit trails
  * 4. Preserves historical context
+ *
+ * Returns null if the version precondition fails or the book changed concurrently.
  */
-export async function deleteBook(id: string, userId: string): Promise<Book> {
-  // Get current state for audit
-  const before = await prisma.book.findUnique({ where: { id } });
-  if (!before) {
-    throw new Error('Book not found');
-  }
+export async function deleteBook(
+  id: string,
+  userId: string,
+  options: BookWriteOptions = {}
+): Promise<Book | null> {
+  return runInTransaction(async () => {
+    const { expectedVersions } = options;
 
-  // Soft delete
-  const book = await prisma.book.update({
-    where: { id },
-    data: {
-      isDeleted: true,
-      updatedById: userId,
-    },
-    include: {
-      createdBy: {
-        select: { id: true, name: true },
+    // Get current version
+    const before = await db().book.findUnique({ where: { id } });
+    if (!before) {
+      throw new Error('Book not found');
+    }
+
+    // If-Match precondition
+    if (expectedVersions && !expectedVersions.includes(before.version)) {
+      return null;
+    }
+
+    // Soft delete
+    const book = await guardVersion(() => db().book.update({
+      where: { id, version: before.version },
+      data: {
+        version: { increment: 1 },
+        isDeleted: true,
+        updatedById: userId,
       },
-      updatedBy: {
-        select: { id: true, name: true },
+      include: {
+        createdBy: {
+          select: { id: true, name: true },
+        },
+        updatedBy: {
+          select: { id: true, name: true },
+        },
+        contributors: contributorsInclude,
+        publisher: {
+          select: { id: true, name: true },
+        },
       },
-    },
-  });
+    }));
 
-  // Record audit log
-  await recordDelete('Book', book.id, before as unknown as Record<string, unknown>);
+    // Version moved on between read and write
+    if (!book) {
+      return null;
+    }
 
-  return book as Book;
+    return book as Book;
+  });
 }
 
 /**
  * Restore a soft-deleted book
+ *
+ * Returns null if the version precondition fails or the book changed concurrently.
  */
-export async function restoreBook(id: string, userId: string): Promise<Book> {
-  // Get current state for audit
-  const before = await prisma.book.findUnique({ where: { id } });
-  if (!before) {
-    throw new Error('Book not found');
-  }
+export async function restoreBook(
+  id: string,
+  userId: string,
+  options: BookWriteOptions = {}
+): Promise<Book | null> {
+  return runInTransaction(async () => {
+    const { expectedVersions } = options;
 
-  // Restore
-  const book = await prisma.book.update({
-    where: { id },
-    data: {
-      isDeleted: false,
-      updatedById: userId,
-    },
-    include: {
-      createdBy: {
-        select: { id: true, name: true },
+    // Get current version
+    const before = await db().book.findUnique({ where: { id } });
+    if (!before) {
+      throw new Error('Book not found');
+    }
+
+    // If-Match precondition
+    if (expectedVersions && !expectedVersions.includes(before.version)) {
+      return null;
+    }
+
+    // Restore
+    const book = await guardVersion(() => db().book.update({
+      where: { id, version: before.version },
+      data: {
+        version: { increment: 1 },
+        isDeleted: false,
+        updatedById: userId,
       },
-      updatedBy: {
-        select: { id: true, name: true },
+      include: {
+        createdBy: {
+          select: { id: true, name: true },
+        },
+        updatedBy: {
+          select: { id: true, name: true },
+        },
+        contributors: contributorsInclude,
+        publisher: {
+          select: { id: true, name: true },
+        },
       },
-    },
+    }));
+
+    // Version moved on between read and write
+    if (!book) {
+      return null;
+    }
+
+    return book as Book;
   });
+}
 
-  // Record audit log
-  await recordRestore(
-    'Book',
-    book.id,
-    before as unknown as Record<string, unknown>,
-    book as unknown as Record<string, unknown>
-  );
+/**
+ * Move a book through a workflow transition
+ *
+ * Returns null if the book changed concurrently.
+ */
+export async function transitionBook(
+  id: string,
+  transition: WorkflowTransition,
+  data: { status: BookStatus; scheduledAt?: Date | null; publishedAt?: Date },
+  userId: string
+): Promise<Book | null> {
+  return runInTransaction(async () => {
+    // Get current version
+    const before = await db().book.findUnique({ where: { id } });
+    if (!before) {
+      throw new Error('Book not found');
+    }
 
-  return book as Book;
+    // Recorded under the transition's own action
+    const book = await guardVersion(() => withAuditOptions({ action: transition }, () => db().book.update({
+      where: { id, version: before.version },
+      data: {
+        version: { increment: 1 },
+        ...data,
+        updatedById: userId,
+      },
+      include: {
+        createdBy: {
+          select: { id: true, name: true },
+        },
+        updatedBy: {
+          select: { id: true, name: true },
+        },
+        contributors: contributorsInclude,
+        publisher: {
+          select: { id: true, name: true },
+        },
+      },
+    })));
+
+    // Version moved on between read and write
+    if (!book) {
+      return null;
+    }
+
+    return book as Book;
+  });
 }
@@ -0,0 +1,122 @@
+import { BookComment, CreateCommentDto } from '../types';
+import { getTransaction } from '../utils/transaction';
+import { prisma, TransactionClient } from '../utils/prisma';
+
+// Active transaction (see runInTransaction) or the default client
+const db = (): TransactionClient => getTransaction() ?? prisma;
+
+/**
+ * Book Comment Repository
+ *
+ * Handles review comments on books. Writes are audited by the audit client extension.
+ * Uses soft delete so threads keep their structure.
+ */
+
+/**
+ * Find all comments of a book, oldest first
+ */
+export async function findCommentsByBook(bookId: string): Promise<BookComment[]> {
+  const comments = await db().bookComment.findMany({
+    where: { bookId },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    include: {
+      createdBy: {
+        select: { id: true, name: true },
+      },
+    },
+  });
+  return comments as BookComment[];
+}
+
+/**
+ * Find a comment of a book by ID
+ */
+export async function findCommentById(
+  bookId: string,
+  id: string,
+  includeDeleted = false
+): Promise<BookComment | null> {
+  const comment = await db().bookComment.findFirst({
+    where: {
+      id,
+      bookId,
+      ...(includeDeleted ? {} : { isDeleted: false }),
+    },
+    include: {
+      createdBy: {
+        select: { id: true, name: true },
+      },
+    },
+  });
+  return comment as BookComment | null;
+}
+
+/**
+ * Create a new comment
+ */
+export async function createComment(
+  bookId: string,
+  data: CreateCommentDto,
+  userId: string
+): Promise<BookComment> {
+  const comment = await db().bookComment.create({
+    data: {
+      ...data,
+      bookId,
+      createdById: userId,
+    },
+    include: {
+      createdBy: {
+        select: { id: true, name: true },
+      },
+    },
+  });
+  return comment as BookComment;
+}
+
+/**
+ * Update a comment (body, anchor or resolution state)
+ */
+export async function updateComment(
+  id: string,
+  data: {
+    body?: string;
+    field?: string | null;
+    isResolved?: boolean;
+    resolvedAt?: Date | null;
+    resolvedById?: string | null;
+  }
+): Promise<BookComment> {
+  const comment = await db().bookComment.update({
+    where: { id },
+    data,
+    include: {
+      createdBy: {
+        select: { id: true, name: true },
+      },
+    },
+  });
+  return comment as BookComment;
+}
+
+/**
+ * Soft delete a comment
+ */
+export async function deleteComment(id: string): Promise<BookComment> {
+  const comment = await db().bookComment.update({
+    where: { id },
+    data: { isDeleted: true },
+  });
+  return comment as BookComment;
+}
+
+/**
+ * Restore a soft-deleted comment
+ */
+export async function restoreComment(id: string): Promise<BookComment> {
+  const comment = await db().bookComment.update({
+    where: { id },
+    data: { isDeleted: false },
+  });
+  return comment as BookComment;
+}
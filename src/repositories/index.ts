@@ -1,3 +1,6 @@
 export * from './audit.repository';
 export * from './book.repository';
+export * from './author.repository';
+export * from './publisher.repository';
+export * from './comment.repository';
 export * from './user.repository';
@@ -0,0 +1,166 @@
+import { Prisma } from '@prisma/client';
+import { CreatePublisherDto, Publisher, PublisherFilterParams, UpdatePublisherDto } from '../types';
+import {
+  buildKeysetCondition,
+  decodeCursor,
+  encodeCursor,
+  PaginatedResult,
+  PaginationParams,
+} from '../utils/pagination';
+import { config } from '../config';
+import { getTransaction } from '../utils/transaction';
+import { prisma, TransactionClient } from '../utils/prisma';
+
+// Active transaction (see runInTransaction) or the default client
+const db = (): TransactionClient => getTransaction() ?? prisma;
+
+/**
+ * Publisher Repository
+ *
+ * Handles publisher CRUD operations. Writes are audited by the audit client extension.
+ * Uses soft delete, like books.
+ */
+
+/**
+ * Find publisher by ID
+ */
+export async function findPublisherById(id: string, includeDeleted = false): Promise<Publisher | null> {
+  const publisher = await db().publisher.findFirst({
+    where: {
+      id,
+      ...(includeDeleted ? {} : { isDeleted: false }),
+    },
+  });
+  return publisher as Publisher | null;
+}
+
+/**
+ * Find a publisher by exact name (case-insensitive), including deleted ones
+ */
+export async function findPublisherByName(name: string): Promise<Publisher | null> {
+  const publisher = await db().publisher.findFirst({
+    where: {
+      name: { equals: name, mode: 'insensitive' },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+  return publisher as Publisher | null;
+}
+
+/**
+ * Find publishers with search and pagination, ordered by name
+ */
+export async function findPublishers(
+  params: PaginationParams,
+  filters: PublisherFilterParams = {}
+): Promise<PaginatedResult<Publisher>> {
+  const { limit, cursor } = params;
+  const takeLimit = Math.min(limit, config.pagination.maxLimit);
+
+  // Build where clause
+  const where: Prisma.PublisherWhereInput = { isDeleted: false };
+
+  if (filters.q) {
+    where.name = { contains: filters.q, mode: 'insensitive' };
+  }
+
+  // Cursor pagination
+  let cursorCondition: Prisma.PublisherWhereInput | undefined;
+  if (cursor) {
+    const cursorData = decodeCursor(cursor);
+    const name = cursorData?.values?.name;
+    if (cursorData && typeof name === 'string') {
+      cursorCondition = buildKeysetCondition(
+        { field: 'name', direction: 'asc' },
+        name,
+        cursorData.id
+      ) as Prisma.PublisherWhereInput;
+    }
+  }
+
+  // Combine conditions
+  const finalWhere: Prisma.PublisherWhereInput = cursorCondition
+    ? { AND: [where, cursorCondition] }
+    : where;
+
+  // Fetch publishers (one extra for pagination)
+  const publishers = await db().publisher.findMany({
+    where: finalWhere,
+    orderBy: [{ name: 'asc' }, { id: 'asc' }],
+    take: takeLimit + 1,
+  });
+
+  // Check for more items
+  const hasMore = publishers.length > takeLimit;
+  const resultItems = hasMore ? publishers.slice(0, takeLimit) : publishers;
+
+  // Generate next cursor
+  let nextCursor: string | undefined;
+  if (hasMore && resultItems.length > 0) {
+    const lastItem = resultItems[resultItems.length - 1];
+    nextCursor = encodeCursor({
+      id: lastItem.id,
+      sort: 'name',
+      values: { name: lastItem.name },
+    });
+  }
+
+  return {
+    items: resultItems as Publisher[],
+    nextCursor,
+    hasMore,
+  };
+}
+
+/**
+ * Count active books published by a publisher
+ */
+export async function countActiveBooksForPublisher(publisherId: string): Promise<number> {
+  return db().book.count({
+    where: {
+      isDeleted: false,
+      publisherId,
+    },
+  });
+}
+
+/**
+ * Create a new publisher
+ */
+export async function createPublisher(data: CreatePublisherDto): Promise<Publisher> {
+  const publisher = await db().publisher.create({ data });
+  return publisher as Publisher;
+}
+
+/**
+ * Update a publisher
+ */
+export async function updatePublisher(id: string, data: UpdatePublisherDto): Promise<Publisher> {
+  const publisher = await db().publisher.update({
+    where: { id },
+    data,
+  });
+  return publisher as Publisher;
+}
+
+/**
+ * Soft delete a publisher
+ */
+export async function deletePublisher(id: string): Promise<Publisher> {
+  const publisher = await db().publisher.update({
+    where: { id },
+    data: { isDeleted: true },
+  });
+  return publisher as Publisher;
+}
+
+/**
+ * Restore a soft-deleted publisher
+ */
+export async function restorePublisher(id: string): Promise<Publisher> {
+  const publisher = await db().publisher.update({
+    where: { id },
+    data: { isDeleted: false },
+  });
+  return publisher as Publisher;
+}
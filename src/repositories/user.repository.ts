@@ -1,13 +1,23 @@
-import { PrismaClient } from '@prisma/client';
+import { randomUUID } from 'crypto';
 import bcrypt from 'bcryptjs';
-import { User } from '../types';
+import { DataSubject, User } from '../types';
+import { withAuditOptions } from '../utils/audit-extension';
+import { getTransaction } from '../utils/transaction';
+import { prisma, TransactionClient } from '../utils/prisma';
 
-const prisma = new PrismaClient();
+// Active transaction (see runInTransaction) or the default client
+const db = (): TransactionClient => getTransaction() ?? prisma;
 
 /**
  * User Repository
  */
 
+// Actor of audit events without an authenticated user (e.g. failed logins).
+// Its role grants no access and its credentials are random.
+export const ANONYMOUS_USER_ID = '00000000-0000-0000-0000-000000000000';
+
+let anonymousUser: Promise<User> | null = null;
+
 /**
  * Find user by ID
  */
@@ -108,3 +118,100 @@ export async function findAllUsers(): Promise<User[]> {
   });
   return users as User[];
 }
+
+/**
+ * Find a user's stored record, without credentials (data subject requests)
+ */
+export async function findDataSubject(id: string): Promise<DataSubject | null> {
+  return db().user.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      role: true,
+      createdAt: true,
+      updatedAt: true,
+      erasedAt: true,
+    },
+  });
+}
+
+/**
+ * Replace a user's name and email with a pseudonym and their credentials with
+ * random ones, so the row still backs their books and audit entries but
+ * identifies and authenticates no one. The write itself is not audited: the
+ * caller records the erasure.
+ */
+export async function eraseUser(id: string, pseudonym: { name: string; email: string }): Promise<DataSubject> {
+  const password = await bcrypt.hash(randomUUID(), 10);
+
+  return withAuditOptions({ skip: true }, () =>
+    db().user.update({
+      where: { id },
+      data: {
+        ...pseudonym,
+        apiKey: `erased-${randomUUID()}`,
+        password,
+        erasedAt: new Date(),
+      },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        createdAt: true,
+        updatedAt: true,
+        erasedAt: true,
+      },
+    })
+  );
+}
+
+/**
+ * IDs (of the given ones) of users whose personal data was erased
+ */
+export async function findErasedUserIds(ids: string[]): Promise<Set<string>> {
+  if (ids.length === 0) return new Set();
+
+  const users = await db().user.findMany({
+    where: { id: { in: ids }, erasedAt: { not: null } },
+    select: { id: true },
+  });
+  return new Set(users.map((user) => user.id));
+}
+
+/**
+ * Get the anonymous actor, creating it on first use
+ */
+export function ensureAnonymousUser(): Promise<User> {
+  anonymousUser ??= createAnonymousUser().catch((error) => {
+    anonymousUser = null;
+    throw error;
+  });
+  return anonymousUser;
+}
+
+async function createAnonymousUser(): Promise<User> {
+  const user = await prisma.user.upsert({
+    where: { id: ANONYMOUS_USER_ID },
+    update: {},
+    create: {
+      id: ANONYMOUS_USER_ID,
+      name: 'Anonymous',
+      email: 'anonymous@system.invalid',
+      role: 'anonymous',
+      apiKey: `anonymous-${randomUUID()}`,
+      password: await bcrypt.hash(randomUUID(), 10),
+    },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      role: true,
+      apiKey: true,
+      createdAt: true,
+    },
+  });
+  return user as User;
+}
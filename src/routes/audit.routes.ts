@@ -1,13 +1,14 @@
 import { Router } from 'express';
 import { auditController } from '../controllers';
 import { authMiddleware } from '../middleware/auth.middleware';
-import { requireAdmin } from '../middleware/rbac.middleware';
+import { requireAdmin, requirePrivilege } from '../middleware/rbac.middleware';
 import { asyncHandler } from '../middleware/error.middleware';
 
 /**
  * Audit Routes
  * 
- * All routes require admin role.
+ * All routes require admin role; revealing encrypted values also requires
+ * the audit:reveal privilege.
  */
 
 const router = Router();
@@ -22,7 +23,35 @@ router.get('/entities', asyncHandler(auditController.getAuditableEntities));
 // List audits with filters
 router.get('/', asyncHandler(auditController.listAudits));
 
+// List recorded reads (who viewed what)
+router.get('/reads', asyncHandler(auditController.listAuditReads));
+
+// Bucketed audit counts for dashboards
+router.get('/stats', asyncHandler(auditController.getAuditStats));
+
+// Stream matching audits as CSV or JSON Lines
+router.get('/export', asyncHandler(auditController.exportAudits));
+
+// Verify the audit hash chain (optionally over a time range)
+router.get('/verify', asyncHandler(auditController.verifyChain));
+
+// Export a signed checkpoint of the chain head / compare a stored one
+router.get('/checkpoint', asyncHandler(auditController.exportCheckpoint));
+router.post('/checkpoint/verify', asyncHandler(auditController.verifyCheckpoint));
+
+// Retention archives: list, sweep now, re-import / release for an investigation
+router.get('/archives', asyncHandler(auditController.listArchives));
+router.post('/archives/sweep', asyncHandler(auditController.sweepAudits));
+router.post('/archives/:archiveId/import', asyncHandler(auditController.importArchive));
+router.delete('/archives/:archiveId/import', asyncHandler(auditController.releaseArchive));
+
+// Roll back (or preview rolling back) all changes of a request
+router.post('/changesets/:requestId/rollback', asyncHandler(auditController.rollbackChangeset));
+
 // Get single audit
 router.get('/:id', asyncHandler(auditController.getAudit));
 
+// Decrypt an audit's encrypted values (audited)
+router.post('/:id/reveal', requirePrivilege('audit:reveal'), asyncHandler(auditController.revealAudit));
+
 export default router;
@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { authorController } from '../controllers';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { requireAdmin, requireAuthenticatedUser } from '../middleware/rbac.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+
+/**
+ * Author Routes
+ *
+ * All routes require authentication.
+ * Delete endpoint requires admin role.
+ */
+
+const router = Router();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// List authors (paginated)
+router.get('/', asyncHandler(authorController.listAuthors));
+
+// Get single author
+router.get('/:id', asyncHandler(authorController.getAuthor));
+
+// List books by author
+router.get('/:id/books', asyncHandler(authorController.listAuthorBooks));
+
+// Create author
+router.post('/', requireAuthenticatedUser, asyncHandler(authorController.createAuthor));
+
+// Update author
+router.patch('/:id', requireAuthenticatedUser, asyncHandler(authorController.updateAuthor));
+
+// Delete author (admin only, soft delete)
+router.delete('/:id', requireAdmin, asyncHandler(authorController.deleteAuthor));
+
+export default router;
@@ -1,14 +1,19 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { bookController } from '../controllers';
 import { authMiddleware } from '../middleware/auth.middleware';
 import { requireAdmin, requireAuthenticatedUser } from '../middleware/rbac.middleware';
 import { asyncHandler } from '../middleware/error.middleware';
+import { mountRoutes } from '../middleware/request-context.middleware';
+import { getWorkflowTransitions } from '../config/workflow.config';
+import commentRoutes from './comment.routes';
+import { config } from '../config';
 
 /**
  * Book Routes
  * 
  * All routes require authentication.
- * Restore endpoint requires admin role.
+ * Restore and revert endpoints require admin role.
+ * Workflow transition roles are checked against workflowConfig.
  */
 
 const router = Router();
@@ -19,12 +24,35 @@ router.use(authMiddleware);
 // List books (paginated)
 router.get('/', asyncHandler(bookController.listBooks));
 
-// Get single book
+// Get editorial workflow config (must be before /:id)
+router.get('/workflow', asyncHandler(bookController.getWorkflow));
+
+// Export the catalog as CSV / JSON Lines / ONIX (must be before /:id)
+router.get('/export', asyncHandler(bookController.exportBooks));
+
+// Get single book by ISBN (must be before /:id)
+router.get('/by-isbn/:isbn', asyncHandler(bookController.getBookByIsbn));
+
+// Get single book (or a point-in-time view with ?asOf=)
 router.get('/:id', asyncHandler(bookController.getBook));
 
+// Version history rebuilt from the audit trail
+router.get('/:id/history', asyncHandler(bookController.getBookHistory));
+
 // Create book
 router.post('/', requireAuthenticatedUser, asyncHandler(bookController.createBook));
 
+// Bulk import books from CSV / JSON Lines (raw text body)
+router.post(
+  '/import',
+  requireAuthenticatedUser,
+  express.text({
+    type: ['text/csv', 'application/x-ndjson', 'application/jsonl', 'text/plain'],
+    limit: config.import.maxBodySize,
+  }),
+  asyncHandler(bookController.importBooks)
+);
+
 // Update book
 router.patch('/:id', requireAuthenticatedUser, asyncHandler(bookController.updateBook));
 
@@ -34,4 +62,19 @@ router.delete('/:id', requireAuthenticatedUser, asyncHandler(bookController.dele
 // Restore deleted book (admin only)
 router.post('/:id/restore', requireAdmin, asyncHandler(bookController.restoreBook));
 
+// Revert to an audited version (admin only)
+router.post('/:id/revert', requireAdmin, asyncHandler(bookController.revertBook));
+
+// Review comments and threads
+mountRoutes(router, '/:id/comments', commentRoutes);
+
+// Workflow transitions, one endpoint each (e.g. POST /:id/submit)
+for (const transition of getWorkflowTransitions()) {
+  router.post(
+    `/:id/${transition}`,
+    requireAuthenticatedUser,
+    asyncHandler(bookController.transitionBook(transition))
+  );
+}
+
 export default router;
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { commentController } from '../controllers';
+import { requireAdmin, requireAuthenticatedUser } from '../middleware/rbac.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+
+/**
+ * Book Comment Routes
+ *
+ * Mounted under /api/books/:id/comments (authentication is applied by the book router).
+ * Delete endpoint requires admin role; editing others' comments is checked in the service.
+ */
+
+const router = Router({ mergeParams: true });
+
+// List comment threads
+router.get('/', asyncHandler(commentController.listComments));
+
+// Create comment or reply
+router.post('/', requireAuthenticatedUser, asyncHandler(commentController.createComment));
+
+// Edit comment
+router.patch('/:commentId', requireAuthenticatedUser, asyncHandler(commentController.updateComment));
+
+// Delete comment (admin moderation, soft delete)
+router.delete('/:commentId', requireAdmin, asyncHandler(commentController.deleteComment));
+
+// Resolve / reopen a thread
+router.post('/:commentId/resolve', requireAuthenticatedUser, asyncHandler(commentController.resolveComment));
+router.post('/:commentId/unresolve', requireAuthenticatedUser, asyncHandler(commentController.unresolveComment));
+
+export default router;
@@ -2,6 +2,10 @@ import { Router } from 'express';
 import bookRoutes from './book.routes';
 import auditRoutes from './audit.routes';
 import authRoutes from './auth.routes';
+import authorRoutes from './author.routes';
+import publisherRoutes from './publisher.routes';
+import userRoutes from './user.routes';
+import { mountRoutes } from '../middleware/request-context.middleware';
 import { seedDatabase } from '../utils/seed';
 
 const router = Router();
@@ -23,8 +27,11 @@ router.get('/seed-database', async (req, res) => {
 });
 
 // Mount routes
-router.use('/auth', authRoutes);
-router.use('/books', bookRoutes);
-router.use('/audits', auditRoutes);
+mountRoutes(router, '/auth', authRoutes);
+mountRoutes(router, '/books', bookRoutes);
+mountRoutes(router, '/authors', authorRoutes);
+mountRoutes(router, '/publishers', publisherRoutes);
+mountRoutes(router, '/audits', auditRoutes);
+mountRoutes(router, '/users', userRoutes);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { publisherController } from '../controllers';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { requireAdmin } from '../middleware/rbac.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+
+/**
+ * Publisher Routes
+ *
+ * All routes require admin role.
+ */
+
+const router = Router();
+
+// All routes require authentication and admin role
+router.use(authMiddleware);
+router.use(requireAdmin);
+
+// List publishers (paginated)
+router.get('/', asyncHandler(publisherController.listPublishers));
+
+// Get single publisher
+router.get('/:id', asyncHandler(publisherController.getPublisher));
+
+// Create publisher
+router.post('/', asyncHandler(publisherController.createPublisher));
+
+// Update publisher
+router.patch('/:id', asyncHandler(publisherController.updatePublisher));
+
+// Delete publisher (soft delete)
+router.delete('/:id', asyncHandler(publisherController.deletePublisher));
+
+export default router;
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { userController } from '../controllers';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { requireAdmin, requirePrivilege } from '../middleware/rbac.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+
+/**
+ * User Routes
+ *
+ * All routes require admin role and a data subject privilege
+ * (user:export, user:erase).
+ */
+
+const router = Router();
+
+// All routes require authentication and admin role
+router.use(authMiddleware);
+router.use(requireAdmin);
+
+// Export everything held about a user (audited)
+router.get('/:id/data-export', requirePrivilege('user:export'), asyncHandler(userController.exportUserData));
+
+// Erase a user's personal data (audited)
+router.post('/:id/erase', requirePrivilege('user:erase'), asyncHandler(userController.eraseUser));
+
+export default router;
@@ -1,8 +1,34 @@
-import { AuditLog, AuditFilterParams } from '../types';
+import {
+  AuditLog,
+  AuditFilterParams,
+  AuditChainBreak,
+  AuditChainLink,
+  AuditChainVerification,
+  AuditRead,
+  AuditReadFilterParams,
+  AuditReveal,
+  AuditStats,
+  AuditStatsGroupBy,
+  CheckpointVerification,
+  SecurityAction,
+} from '../types';
 import { PaginatedResult } from '../utils/pagination';
 import * as auditRepo from '../repositories/audit.repository';
+import * as userRepo from '../repositories/user.repository';
 import { AppError } from '../middleware/error.middleware';
-import { getAuditableEntities } from '../config/audit.config';
+import { getAuditedEntities, isReadAuditable } from '../config/audit.config';
+import { config } from '../config';
+import {
+  computeAuditHash,
+  computeErasedAuditHash,
+  isCheckpointSignatureValid,
+  signCheckpoint,
+  SignedCheckpoint,
+} from '../utils/audit-chain';
+import { logger } from '../utils/logger';
+import { getRequestContext, getUserId } from '../utils/async-context';
+import { decryptValue, findEncryptedValues, isRevealAvailable } from '../utils/redaction';
+import { parseDiff } from './history.service';
 
 /**
  * Audit Service
@@ -11,14 +37,12 @@ import { getAuditableEntities } from '../config/audit.config';
  */
 
 /**
- * Get audit logs with filters
+ * Validate audit filters (entity name, date range, changed from / to)
  */
-export async function getAuditLogs(
-  filters: AuditFilterParams
-): Promise<PaginatedResult<AuditLog>> {
+export function validateAuditFilters(filters: AuditFilterParams): void {
   // Validate entity filter if provided
   if (filters.entity) {
-    const auditableEntities = getAuditableEntities();
+    const auditableEntities = getAuditedEntities();
     if (!auditableEntities.includes(filters.entity)) {
       throw new AppError(
         'INVALID_ENTITY',
@@ -28,6 +52,14 @@ export async function getAuditLogs(
     }
   }
 
+  if ((filters.changedFrom !== undefined || filters.changedTo !== undefined) && !filters.changedField) {
+    throw new AppError(
+      'INVALID_CHANGE_FILTER',
+      'changedFrom and changedTo require changedField',
+      400
+    );
+  }
+
   // Validate date range
   if (filters.from && filters.to) {
     const fromDate = new Date(filters.from);
@@ -40,14 +72,68 @@ export async function getAuditLogs(
       );
     }
   }
+}
+
+/**
+ * Get audit logs with filters
+ */
+export async function getAuditLogs(
+  filters: AuditFilterParams
+): Promise<PaginatedResult<AuditLog>> {
+  validateAuditFilters(filters);
 
   return auditRepo.findAuditLogs(filters);
 }
 
 /**
- * Get audit log by ID
+ * Count audit entries matching the filters, bucketed by a dimension
  */
-export async function getAuditById(id: string): Promise<AuditLog> {
+export async function getAuditStats(
+  filters: AuditFilterParams,
+  groupBy: AuditStatsGroupBy
+): Promise<AuditStats> {
+  validateAuditFilters(filters);
+
+  const { total, buckets } = await auditRepo.aggregateAuditLogs(filters, groupBy);
+
+  return { groupBy, total, buckets };
+}
+
+/**
+ * Audit entry as returned by the API (without the legacy diff columns kept
+ * for the hash chain)
+ */
+export function toAuditResponse<T extends AuditLog>(entry: T): Omit<T, 'legacyDiff' | 'legacyFieldsChanged'> {
+  const { legacyDiff, legacyFieldsChanged, ...response } = entry;
+  return response;
+}
+
+/**
+ * Record that the current user viewed a record of a read-tracked entity
+ * (trackReads in audit.config.ts). Reads go to their own table, outside the
+ * hash chain, so they never wait on its lock. Identical reads within
+ * AUDIT_READ_DEDUP_SECONDS are recorded once (checked in the database, so
+ * across restarts and instances). Unlike security events, a read that
+ * cannot be recorded fails the request.
+ */
+export async function recordRead(entity: string, entityId: string): Promise<void> {
+  const actorId = getUserId();
+  if (!actorId || !isReadAuditable(entity)) return;
+
+  await auditRepo.createAuditRead({ entity, entityId, actorId }, config.auditReads.dedupWindowSeconds);
+}
+
+/**
+ * Get recorded reads with filters
+ */
+export async function getAuditReads(filters: AuditReadFilterParams): Promise<PaginatedResult<AuditRead>> {
+  return auditRepo.findAuditReads(filters);
+}
+
+/**
+ * Find an audit log or throw 404
+ */
+async function findAudit(id: string): Promise<AuditLog> {
   const audit = await auditRepo.findAuditById(id);
   
   if (!audit) {
@@ -57,9 +143,357 @@ export async function getAuditById(id: string): Promise<AuditLog> {
   return audit;
 }
 
+/**
+ * Get audit log by ID (the read is audited)
+ */
+export async function getAuditById(id: string): Promise<AuditLog> {
+  const audit = await findAudit(id);
+
+  await recordRead('AuditLog', audit.id);
+
+  return audit;
+}
+
+/**
+ * Decrypt the encrypted values of an audit entry (all of them, or only the
+ * given fields or dotted paths). The reveal is recorded as a 'reveal' entry on the same
+ * entity before any value is returned; nothing is revealed if that fails.
+ */
+export async function revealAuditValues(id: string, actorId: string, fields?: string[]): Promise<AuditReveal> {
+  if (!isRevealAvailable()) {
+    throw new AppError('REVEAL_UNAVAILABLE', 'Revealing audit values requires AUDIT_ENCRYPTION_KEY', 503);
+  }
+
+  const audit = await findAudit(id);
+  const diff = parseDiff(audit) ?? { before: {}, after: {} };
+
+  const encryptedBefore = new Map(findEncryptedValues(diff.before));
+  const encryptedAfter = new Map(findEncryptedValues(diff.after));
+  const encrypted = new Set([...encryptedBefore.keys(), ...encryptedAfter.keys()]);
+  const requested = fields ? [...new Set(fields)] : [...encrypted];
+
+  const notEncrypted = requested.filter((field) => !encrypted.has(field));
+  if (requested.length === 0 || notEncrypted.length > 0) {
+    throw new AppError(
+      'NOTHING_TO_REVEAL',
+      requested.length === 0
+        ? `Audit log ${id} has no encrypted values`
+        : `Fields not encrypted in audit log ${id}: ${notEncrypted.join(', ')}`,
+      400
+    );
+  }
+
+  const reveal = (values: Map<string, string>): Record<string, unknown> => {
+    const revealed: Record<string, unknown> = {};
+    for (const field of requested) {
+      const value = values.get(field);
+      if (value === undefined) continue;
+      try {
+        revealed[field] = decryptValue(value);
+      } catch {
+        throw new AppError(
+          'DECRYPTION_FAILED',
+          `Field '${field}' of audit log ${id} cannot be decrypted with the configured key`,
+          422
+        );
+      }
+    }
+    return revealed;
+  };
+  const before = reveal(encryptedBefore);
+  const after = reveal(encryptedAfter);
+
+  const recorded = await auditRepo.createAuditLog({
+    entity: audit.entity,
+    entityId: audit.entityId,
+    action: 'reveal',
+    actorId,
+    after: { auditId: audit.id, fields: requested },
+  });
+  if (!recorded) {
+    throw new AppError('REVEAL_NOT_RECORDED', `Revealing values of ${audit.entity} cannot be audited`, 409);
+  }
+
+  logger.info('Audit values revealed', { auditId: audit.id, fields: requested });
+
+  return {
+    auditId: audit.id,
+    entity: audit.entity,
+    entityId: audit.entityId,
+    fields: requested,
+    before,
+    after,
+    revealAuditId: recorded.id,
+  };
+}
+
+/**
+ * Whether the current client recorded its limit of anonymous security
+ * events in the last minute (all clients together when IPs aren't captured)
+ */
+async function isAnonymousEventLimitReached(): Promise<boolean> {
+  const limit = config.auditSecurityEvents.anonymousLimitPerMinute;
+  if (limit <= 0) return false;
+
+  const recent = await auditRepo.countRecentEvents({
+    actorId: userRepo.ANONYMOUS_USER_ID,
+    ip: config.auditContext.captureIp ? getRequestContext()?.ip : undefined,
+    since: new Date(Date.now() - 60 * 1000),
+  });
+  return recent >= limit;
+}
+
+/**
+ * Record a security event (failed login, rejected credential, denied access).
+ *
+ * Recorded on the User entity: actorId is the authenticated user (the
+ * anonymous actor when there is none) and entityId the account concerned
+ * (defaults to the actor). Anonymous events are limited per client IP
+ * (AUDIT_ANONYMOUS_EVENT_LIMIT a minute), so unauthenticated clients can't
+ * flood the audit trail; events over the limit are only logged. Failing to
+ * record is logged but never changes the response.
+ */
+export async function recordSecurityEvent(event: {
+  action: SecurityAction;
+  actorId?: string;
+  entityId?: string;
+  details: Record<string, unknown>;
+}): Promise<void> {
+  try {
+    if (!event.actorId && (await isAnonymousEventLimitReached())) {
+      logger.warn('Anonymous security event not recorded: limit reached', {
+        action: event.action,
+        ip: getRequestContext()?.ip,
+      });
+      return;
+    }
+
+    const actorId = event.actorId ?? (await userRepo.ensureAnonymousUser()).id;
+
+    await auditRepo.createAuditLog({
+      entity: 'User',
+      entityId: event.entityId ?? actorId,
+      action: event.action,
+      actorId,
+      after: event.details,
+    });
+  } catch (error) {
+    logger.error('Failed to record security event', {
+      action: event.action,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
 /**
  * Get list of auditable entities
  */
 export function getAuditableEntityList(): string[] {
-  return getAuditableEntities();
+  return getAuditedEntities();
+}
+
+// Erased hashes recorded by 'erase' entries, by erase entry and scrubbed entry ID
+type ErasedHashes = Map<string, Map<string, string>>;
+
+/**
+ * Load the erasures referenced by a batch of entries
+ */
+async function loadErasedHashes(entries: AuditLog[]): Promise<ErasedHashes> {
+  return auditRepo.findErasedHashes([
+    ...new Set(entries.map((entry) => entry.erasedBy).filter((id): id is string => !!id)),
+  ]);
+}
+
+/**
+ * Check one chain entry against the hash of the entry before it.
+ * Entries removed by the retention sweeper only have their link checked.
+ * Entries scrubbed by an erasure are checked against the erased hash the
+ * 'erase' entry recorded for them.
+ */
+function checkChainEntry(
+  node: { entry: AuditLog } | { link: AuditChainLink },
+  expectedPrevHash: string | null,
+  erasures: ErasedHashes
+): AuditChainBreak | null {
+  const link = 'entry' in node ? auditRepo.toChainLink(node.entry) : node.link;
+  const position = { auditId: link.auditId, sequence: link.sequence, timestamp: link.timestamp };
+
+  if (!link.hash) {
+    return { ...position, reason: 'missing_hash', expected: null, actual: null };
+  }
+  if (link.prevHash !== expectedPrevHash) {
+    return { ...position, reason: 'prev_hash_mismatch', expected: expectedPrevHash, actual: link.prevHash };
+  }
+  if ('entry' in node && node.entry.erasedBy) {
+    const expected = erasures.get(node.entry.erasedBy)?.get(link.auditId) ?? null;
+    const hash = node.entry.erasedDataHash ? computeErasedAuditHash(node.entry, node.entry.erasedDataHash) : null;
+    if (!expected || hash !== expected) {
+      return { ...position, reason: 'erasure_mismatch', expected, actual: hash };
+    }
+  } else if ('entry' in node) {
+    const hash = computeAuditHash(node.entry);
+    if (hash !== link.hash) {
+      return { ...position, reason: 'hash_mismatch', expected: hash, actual: link.hash };
+    }
+  }
+  return null;
+}
+
+/**
+ * Result of verifying an empty range
+ */
+function emptyVerification(): AuditChainVerification {
+  return {
+    valid: true,
+    checked: 0,
+    archived: 0,
+    erased: 0,
+    firstSequence: null,
+    lastSequence: null,
+    lastHash: null,
+    brokenLink: null,
+  };
+}
+
+/**
+ * Walk the chain between two sequence numbers (inclusive), in batches.
+ * Entries still in the table and links of removed entries are merged in sequence order.
+ */
+async function walkChain(fromSequence: number, toSequence: number): Promise<AuditChainVerification> {
+  const result = emptyVerification();
+  const batchSize = config.auditChain.verifyBatchSize;
+
+  // The first entry links to whatever precedes it, even outside the range
+  const predecessor = await auditRepo.findChainPredecessor(fromSequence);
+  let expectedPrevHash = predecessor?.hash ?? null;
+  let nextSequence = fromSequence;
+
+  while (nextSequence <= toSequence) {
+    const [entries, links] = await Promise.all([
+      auditRepo.findChainBatch(nextSequence, toSequence, batchSize),
+      auditRepo.findArchivedLinks(nextSequence, toSequence, batchSize),
+    ]);
+    if (entries.length === 0 && links.length === 0) break;
+    const erasures = await loadErasedHashes(entries);
+
+    // Only walk up to where both batches are complete
+    let upTo = toSequence;
+    if (entries.length === batchSize) upTo = Math.min(upTo, entries[entries.length - 1].sequence);
+    if (links.length === batchSize) upTo = Math.min(upTo, links[links.length - 1].sequence);
+
+    // Re-imported entries are in both; the full entry wins
+    const inTable = new Set(entries.map((entry) => entry.sequence));
+    const nodes = [
+      ...entries.map((entry) => ({ sequence: entry.sequence, node: { entry } })),
+      ...links.filter((link) => !inTable.has(link.sequence)).map((link) => ({ sequence: link.sequence, node: { link } })),
+    ]
+      .filter(({ sequence }) => sequence <= upTo)
+      .sort((a, b) => a.sequence - b.sequence);
+
+    for (const { sequence, node } of nodes) {
+      const brokenLink = checkChainEntry(node, expectedPrevHash, erasures);
+      if (brokenLink) {
+        return { ...result, valid: false, brokenLink };
+      }
+      const hash = 'entry' in node ? node.entry.hash ?? null : node.link.hash;
+      result.firstSequence ??= sequence;
+      result.checked++;
+      if ('link' in node) result.archived++;
+      if ('entry' in node && node.entry.erasedBy) result.erased++;
+      result.lastSequence = sequence;
+      result.lastHash = hash;
+      expectedPrevHash = hash;
+    }
+
+    nextSequence = upTo + 1;
+  }
+
+  return result;
+}
+
+/**
+ * Verify the audit hash chain, optionally limited to a time range.
+ * Reports the first broken link.
+ */
+export async function verifyAuditChain(from?: string, to?: string): Promise<AuditChainVerification> {
+  if (from && to && new Date(from) > new Date(to)) {
+    throw new AppError('INVALID_DATE_RANGE', 'From date must be before to date', 400);
+  }
+
+  // Without a range, walk the whole chain, including removed entries at either end
+  const first = from ? await auditRepo.findFirstChainEntry(new Date(from)) : null;
+  const last = to ? await auditRepo.findLastChainEntry(new Date(to)) : await auditRepo.findChainHead();
+  const fromSequence = from ? first?.sequence : 1;
+
+  if (fromSequence === undefined || !last || fromSequence > last.sequence) {
+    return { from, to, ...emptyVerification() };
+  }
+
+  return { from, to, ...(await walkChain(fromSequence, last.sequence)) };
+}
+
+/**
+ * Checkpoint signing key; checkpoints need AUDIT_CHECKPOINT_SECRET
+ */
+function getCheckpointSecret(): string {
+  const secret = config.auditChain.checkpointSecret;
+  if (!secret) {
+    throw new AppError(
+      'CHECKPOINTS_DISABLED',
+      'Audit checkpoints are disabled: AUDIT_CHECKPOINT_SECRET is not set',
+      503
+    );
+  }
+  return secret;
+}
+
+/**
+ * Create a signed checkpoint of the current chain head
+ */
+export async function createCheckpoint(): Promise<SignedCheckpoint> {
+  const secret = getCheckpointSecret();
+  const head = await auditRepo.findLastChainEntry();
+
+  if (!head?.hash) {
+    throw new AppError('EMPTY_AUDIT_CHAIN', 'The audit chain has no entries to checkpoint', 409);
+  }
+
+  return signCheckpoint(
+    {
+      version: 1,
+      sequence: head.sequence,
+      auditId: head.id,
+      hash: head.hash,
+      timestamp: head.timestamp.toISOString(),
+      createdAt: new Date().toISOString(),
+    },
+    secret
+  );
+}
+
+/**
+ * Compare a stored checkpoint with the chain: the signature must be valid,
+ * the checkpointed entry must still carry the same hash, and the chain up to
+ * it must verify.
+ */
+export async function verifyCheckpoint(checkpoint: SignedCheckpoint): Promise<CheckpointVerification> {
+  const secret = getCheckpointSecret();
+
+  if (!isCheckpointSignatureValid(checkpoint, secret)) {
+    return { valid: false, reason: 'signature_invalid' };
+  }
+
+  // The checkpointed entry may since have been removed by the retention sweeper
+  const entry = await auditRepo.findAuditBySequence(checkpoint.sequence);
+  const link = entry ? auditRepo.toChainLink(entry) : await auditRepo.findArchivedLinkBySequence(checkpoint.sequence);
+  if (!link) {
+    return { valid: false, reason: 'entry_missing' };
+  }
+  if (link.auditId !== checkpoint.auditId || link.hash !== checkpoint.hash) {
+    return { valid: false, reason: 'hash_mismatch' };
+  }
+
+  const chain = await walkChain(1, checkpoint.sequence);
+
+  return { valid: chain.valid, chain };
 }
@@ -4,6 +4,8 @@ import * as userRepo from '../repositories/user.repository';
 import { AppError } from '../middleware/error.middleware';
 import { config } from '../config';
 import { createAuditLog } from '../repositories/audit.repository';
+import { redactValue } from '../utils/redaction';
+import { recordRead, recordSecurityEvent } from './audit.service';
 
 /**
  * Auth Service
@@ -30,6 +32,20 @@ export async function login(email: string, password: string): Promise<LoginResul
   const user = await userRepo.validateCredentials(email, password);
 
   if (!user) {
+    // Recorded against the account when the email exists. The submitted
+    // email is never stored as typed (it may be anything, even a password):
+    // unknown ones only as a salted hash, so repeated attempts still correlate.
+    const account = await userRepo.findUserByEmail(email);
+    await recordSecurityEvent({
+      action: 'login_failed',
+      entityId: account?.id,
+      details: account
+        ? { reason: 'invalid_password' }
+        : {
+            reason: 'unknown_email',
+            email: redactValue(email.trim().toLowerCase(), { field: 'email', strategy: 'hash' }),
+          },
+    });
     throw new AppError('INVALID_CREDENTIALS', 'Invalid email or password', 401);
   }
 
@@ -73,6 +89,8 @@ export async function getCurrentUser(userId: string): Promise<User> {
     throw new AppError('NOT_FOUND', 'User not found', 404);
   }
 
+  await recordRead('User', user.id);
+
   return user;
 }
 
@@ -0,0 +1,152 @@
+import {
+  Author,
+  AuthorCredit,
+  AuthorCreditInput,
+  AuthorFilterParams,
+  CreateAuthorDto,
+  UpdateAuthorDto,
+} from '../types';
+import { PaginatedResult, PaginationParams } from '../utils/pagination';
+import { splitAuthorNames } from '../utils/authors';
+import * as authorRepo from '../repositories/author.repository';
+import { AppError } from '../middleware/error.middleware';
+
+/**
+ * Author Service
+ *
+ * Business logic layer for author operations.
+ */
+
+/**
+ * Get authors with search and pagination
+ */
+export async function getAuthors(
+  params: PaginationParams,
+  filters: AuthorFilterParams = {}
+): Promise<PaginatedResult<Author>> {
+  return authorRepo.findAuthors(params, filters);
+}
+
+/**
+ * Get author by ID
+ */
+export async function getAuthorById(id: string): Promise<Author> {
+  const author = await authorRepo.findAuthorById(id);
+
+  if (!author) {
+    throw new AppError('NOT_FOUND', `Author with ID ${id} not found`, 404);
+  }
+
+  return author;
+}
+
+/**
+ * Create a new author
+ */
+export async function createAuthor(data: CreateAuthorDto): Promise<Author> {
+  return authorRepo.createAuthor(data);
+}
+
+/**
+ * Update an author
+ */
+export async function updateAuthor(id: string, data: UpdateAuthorDto): Promise<Author> {
+  const existing = await getAuthorById(id);
+
+  // Check if there are actually changes
+  const hasChanges = Object.entries(data).some(
+    ([key, value]) => value !== undefined && existing[key as keyof Author] !== value
+  );
+
+  if (!hasChanges) {
+    return existing;
+  }
+
+  return authorRepo.updateAuthor(id, data);
+}
+
+/**
+ * Delete an author (soft delete)
+ *
+ * Refused while the author is still credited on active books.
+ */
+export async function deleteAuthor(id: string): Promise<Author> {
+  await getAuthorById(id);
+
+  const bookCount = await authorRepo.countActiveBooksForAuthor(id);
+  if (bookCount > 0) {
+    throw new AppError(
+      'AUTHOR_IN_USE',
+      `Author with ID ${id} is credited on ${bookCount} book(s)`,
+      409
+    );
+  }
+
+  return authorRepo.deleteAuthor(id);
+}
+
+/**
+ * Find an author by name, creating one if none exists
+ */
+async function findOrCreateAuthor(name: string): Promise<Author> {
+  const existing = await authorRepo.findAuthorByName(name);
+  if (existing) {
+    return existing;
+  }
+  return authorRepo.createAuthor({ name });
+}
+
+/**
+ * Resolve book author input to ordered credits.
+ *
+ * A legacy string is split on separators and every name is credited as 'author'.
+ * Credits given by name are matched to an existing author or create a new one.
+ */
+export async function resolveAuthorCredits(
+  input: string | AuthorCreditInput[]
+): Promise<AuthorCredit[]> {
+  const credits: AuthorCreditInput[] = typeof input === 'string'
+    ? splitAuthorNames(input).map((name) => ({ name, role: 'author' }))
+    : input;
+
+  if (credits.length === 0) {
+    throw new AppError('INVALID_AUTHORS', 'At least one author is required', 400);
+  }
+
+  // Load authors referenced by ID in one query
+  const ids = credits.filter((credit) => credit.authorId).map((credit) => credit.authorId!);
+  const authorsById = new Map(
+    (await authorRepo.findAuthorsByIds(ids)).map((author) => [author.id, author])
+  );
+
+  const resolved: AuthorCredit[] = [];
+  const seen = new Set<string>();
+
+  for (const credit of credits) {
+    let author: Author | undefined;
+
+    if (credit.authorId) {
+      author = authorsById.get(credit.authorId);
+      if (!author) {
+        throw new AppError('INVALID_AUTHOR', `Author with ID ${credit.authorId} not found`, 400);
+      }
+    } else {
+      author = await findOrCreateAuthor(credit.name!);
+    }
+
+    const role = credit.role || 'author';
+    const key = `${author.id}:${role}`;
+    if (seen.has(key)) {
+      throw new AppError(
+        'DUPLICATE_AUTHOR_CREDIT',
+        `Author '${author.name}' is credited more than once as ${role}`,
+        400
+      );
+    }
+    seen.add(key);
+
+    resolved.push({ authorId: author.id, name: author.name, role });
+  }
+
+  return resolved;
+}
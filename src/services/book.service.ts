@@ -1,7 +1,28 @@
-import { Book, CreateBookDto, UpdateBookDto } from '../types';
-import { PaginatedResult, PaginationParams } from '../utils/pagination';
+import {
+  AuthorCredit,
+  Book,
+  BookFilterParams,
+  BookStatus,
+  CreateBookDto,
+  RevertBookDto,
+  RevertBookResult,
+  UpdateBookDto,
+  User,
+  UserRole,
+  WorkflowTransition,
+} from '../types';
+import { getTransitionConfig } from '../config/workflow.config';
+import { getEntityAuditConfig, getRedactedFields } from '../config/audit.config';
+import { decodeCursor, PaginatedResult, PaginationParams } from '../utils/pagination';
 import * as bookRepo from '../repositories/book.repository';
+import * as auditRepo from '../repositories/audit.repository';
 import { AppError } from '../middleware/error.middleware';
+import { formatByline, parseByline } from '../utils/authors';
+import { isbn10To13, isbn13To10 } from '../utils/isbn';
+import { runInTransaction } from '../utils/transaction';
+import { resolveAuthorCredits } from './author.service';
+import { resolvePublisher } from './publisher.service';
+import { recordRead } from './audit.service';
 
 /**
  * Book Service
@@ -9,14 +30,46 @@ import { AppError } from '../middleware/error.middleware';
  * Business logic layer for book operations.
  */
 
+// Book fields that can be restored from an audit snapshot (workflow and system fields cannot)
+const REVERTABLE_FIELDS = ['title', 'authors', 'publishedBy', 'publisherId', 'isbn10', 'isbn13'] as const;
+type RevertableField = (typeof REVERTABLE_FIELDS)[number];
+
 /**
- * Get all books with pagination
+ * Get all books with filters, sorting and pagination
  */
 export async function getBooks(
   params: PaginationParams,
+  filters: BookFilterParams = {},
   includeDeleted = false
 ): Promise<PaginatedResult<Book>> {
-  return bookRepo.findBooks(params, includeDeleted);
+  validateBookFilters(filters);
+
+  // A cursor is only valid for the sort order it was issued for
+  if (params.cursor) {
+    const cursorData = decodeCursor(params.cursor);
+    const sort = filters.sort || bookRepo.DEFAULT_BOOK_SORT;
+    if (!cursorData || cursorData.sort !== sort) {
+      throw new AppError(
+        'INVALID_CURSOR',
+        'Cursor is invalid or was issued for a different sort order',
+        400
+      );
+    }
+  }
+
+  return bookRepo.findBooks(params, filters, includeDeleted);
+}
+
+/**
+ * Validate book list filters (date ranges)
+ */
+export function validateBookFilters(filters: BookFilterParams): void {
+  if (filters.createdFrom && filters.createdTo && new Date(filters.createdFrom) > new Date(filters.createdTo)) {
+    throw new AppError('INVALID_DATE_RANGE', 'createdFrom must be before createdTo', 400);
+  }
+  if (filters.updatedFrom && filters.updatedTo && new Date(filters.updatedFrom) > new Date(filters.updatedTo)) {
+    throw new AppError('INVALID_DATE_RANGE', 'updatedFrom must be before updatedTo', 400);
+  }
 }
 
 /**
@@ -28,47 +81,272 @@ export async function getBookById(id: string, includeDeleted = false): Promise<B
   if (!book) {
     throw new AppError('NOT_FOUND', `Book with ID ${id} not found`, 404);
   }
+
+  await recordRead('Book', book.id);
   
   return book;
 }
 
+/**
+ * Get book by ISBN (normalized ISBN-13)
+ */
+export async function getBookByIsbn(isbn13: string, includeDeleted = false): Promise<Book> {
+  const book = await bookRepo.findBookByIsbn13(isbn13, includeDeleted);
+
+  if (!book) {
+    throw new AppError('NOT_FOUND', `Book with ISBN ${isbn13} not found`, 404);
+  }
+
+  await recordRead('Book', book.id);
+
+  return book;
+}
+
+/**
+ * Derive the stored ISBN pair from validated input.
+ * An ISBN the client didn't send is derived from the other one (ISBN-10 only
+ * for 978 prefixes); an explicit null clears that ISBN only.
+ */
+function resolveIsbns(input: {
+  isbn10?: string | null;
+  isbn13?: string | null;
+}): { isbn10?: string | null; isbn13?: string | null } {
+  const isbn13 = input.isbn13 !== undefined ? input.isbn13 : input.isbn10 ? isbn10To13(input.isbn10) : undefined;
+  const isbn10 = input.isbn10 !== undefined ? input.isbn10 : isbn13 ? isbn13To10(isbn13) : undefined;
+  return { isbn10, isbn13 };
+}
+
+/**
+ * Check the client's If-Match versions against the current version
+ */
+function assertVersion(book: Book, expectedVersions?: number[]): void {
+  if (expectedVersions && !expectedVersions.includes(book.version)) {
+    throw new AppError(
+      'PRECONDITION_FAILED',
+      `Book with ID ${book.id} has been modified (current version ${book.version})`,
+      412
+    );
+  }
+}
+
+/**
+ * Error for a version-guarded write that lost a race: 412 when the client sent
+ * If-Match, otherwise 409 so the client can simply retry.
+ */
+function versionConflict(id: string, expectedVersions?: number[]): AppError {
+  if (expectedVersions) {
+    return new AppError('PRECONDITION_FAILED', `Book with ID ${id} has been modified`, 412);
+  }
+  return new AppError('CONFLICT', `Book with ID ${id} was modified concurrently, please retry`, 409);
+}
+
 /**
  * Create a new book
  */
 export async function createBook(data: CreateBookDto, userId: string): Promise<Book> {
-  return bookRepo.createBook(data, userId);
+  // Authors and the publisher may be created on the fly: they are rolled back
+  // with the book if it can't be written
+  return runInTransaction(async () => {
+    const credits = await resolveAuthorCredits(data.authors);
+    const publisher = await resolvePublisher(data);
+
+    return bookRepo.createBook(
+      {
+        title: data.title,
+        authors: formatByline(credits),
+        publishedBy: publisher.name,
+        publisherId: publisher.id,
+        ...resolveIsbns(data),
+      },
+      credits,
+      userId
+    );
+  });
 }
 
 /**
  * Update a book
+ *
+ * `expectedVersions` comes from If-Match; the write is refused with 412 for any other version.
  */
 export async function updateBook(
   id: string,
   data: UpdateBookDto,
-  userId: string
+  userId: string,
+  expectedVersions?: number[],
+  options: Pick<bookRepo.BookWriteOptions, 'revertedToAuditId'> = {}
 ): Promise<Book> {
-  // Check if book exists and is not deleted
+  // Like createBook, authors or a publisher created on the fly commit with the update
+  return runInTransaction(async () => {
+    // Check if book exists and is not deleted
+    const existing = await bookRepo.findBookById(id);
+    if (!existing) {
+      throw new AppError('NOT_FOUND', `Book with ID ${id} not found`, 404);
+    }
+
+    assertVersion(existing, expectedVersions);
+  
+    const { authors, publishedBy, publisherId, isbn10, isbn13, ...fields } = data;
+    const changes: Partial<bookRepo.BookRecordData> = { ...fields };
+
+    // A new ISBN replaces the stored pair; a null clears only that ISBN
+    if (isbn10 !== undefined || isbn13 !== undefined) {
+      Object.assign(changes, resolveIsbns({ isbn10, isbn13 }));
+    }
+
+    // Re-link the publisher when given by ID or name
+    if (publisherId !== undefined || publishedBy !== undefined) {
+      const publisher = await resolvePublisher({ publisherId, publishedBy });
+      changes.publisherId = publisher.id;
+      changes.publishedBy = publisher.name;
+    }
+
+    // Only replace author links when the resolved credits differ
+    let credits: AuthorCredit[] | undefined;
+    if (authors !== undefined) {
+      const resolved = await resolveAuthorCredits(authors);
+      const current = (existing.contributors || []).map((c) => `${c.authorId}:${c.role}`);
+      const next = resolved.map((c) => `${c.authorId}:${c.role}`);
+
+      if (current.join('|') !== next.join('|')) {
+        credits = resolved;
+      }
+      changes.authors = formatByline(resolved);
+    }
+
+    // Check if there are actually changes
+    const hasChanges = credits !== undefined || Object.entries(changes).some(
+      ([key, value]) => value !== undefined && existing[key as keyof Book] !== value
+    );
+  
+    if (!hasChanges) {
+      return existing;
+    }
+  
+    const book = await bookRepo.updateBook(id, changes, userId, { ...options, credits, expectedVersions });
+    if (!book) {
+      throw versionConflict(id, expectedVersions);
+    }
+
+    return book;
+  });
+}
+
+/**
+ * Revert a book's fields to the values in an audit entry's before/after snapshot.
+ *
+ * Only editable fields are restored. Fields the audit config excludes or redacts
+ * were never recorded: they are rejected when requested in `fields`, otherwise
+ * skipped. The update is audited with a link to the audit entry.
+ */
+export async function revertBook(
+  id: string,
+  data: RevertBookDto,
+  userId: string,
+  expectedVersions?: number[]
+): Promise<RevertBookResult> {
   const existing = await bookRepo.findBookById(id);
   if (!existing) {
     throw new AppError('NOT_FOUND', `Book with ID ${id} not found`, 404);
   }
-  
-  // Check if there are actually changes
-  const hasChanges = Object.entries(data).some(
-    ([key, value]) => value !== undefined && existing[key as keyof Book] !== value
-  );
-  
-  if (!hasChanges) {
-    return existing;
+
+  const audit = await auditRepo.findAuditById(data.auditId);
+  if (!audit || audit.entity !== 'Book' || audit.entityId !== id) {
+    throw new AppError('NOT_FOUND', `Audit log with ID ${data.auditId} not found for book ${id}`, 404);
   }
-  
-  return bookRepo.updateBook(id, data, userId);
+
+  const snapshot: Record<string, unknown> = audit.diff?.[data.snapshot] ?? {};
+  if (Object.keys(snapshot).length === 0) {
+    throw new AppError(
+      'EMPTY_SNAPSHOT',
+      `Audit log ${audit.id} (${audit.action}) has no '${data.snapshot}' snapshot to revert to`,
+      400
+    );
+  }
+
+  const auditConfig = getEntityAuditConfig('Book');
+  const excluded = auditConfig?.exclude ?? [];
+  const redacted = auditConfig ? getRedactedFields(auditConfig) : [];
+
+  // Fields explicitly asked for must all be revertable
+  if (data.fields) {
+    for (const field of data.fields) {
+      if (excluded.includes(field) || redacted.includes(field)) {
+        throw new AppError(
+          'FIELD_NOT_REVERTABLE',
+          `Field '${field}' is ${excluded.includes(field) ? 'excluded from' : 'redacted in'} the audit trail and cannot be reverted`,
+          400
+        );
+      }
+      if (!REVERTABLE_FIELDS.includes(field as RevertableField)) {
+        throw new AppError('FIELD_NOT_REVERTABLE', `Field '${field}' cannot be reverted`, 400);
+      }
+      if (!(field in snapshot)) {
+        throw new AppError('FIELD_NOT_REVERTABLE', `Field '${field}' is not recorded in audit log ${audit.id}`, 400);
+      }
+    }
+  }
+
+  const requested = data.fields ?? REVERTABLE_FIELDS;
+  const skipped: RevertBookResult['skipped'] = [];
+
+  // Recorded in the snapshot with its real value
+  const recorded = (field: RevertableField) =>
+    !excluded.includes(field) && !redacted.includes(field) && field in snapshot;
+
+  // Report which revertable fields a full revert leaves out
+  if (!data.fields) {
+    for (const field of REVERTABLE_FIELDS) {
+      if (excluded.includes(field)) skipped.push({ field, reason: 'excluded' });
+      else if (redacted.includes(field)) skipped.push({ field, reason: 'redacted' });
+      else if (!(field in snapshot)) skipped.push({ field, reason: 'not recorded' });
+    }
+  }
+
+  const values = (field: RevertableField) =>
+    requested.includes(field) && recorded(field) ? snapshot[field] : undefined;
+
+  const changes: UpdateBookDto = {};
+  const title = values('title');
+  if (typeof title === 'string') changes.title = title;
+
+  const authors = values('authors');
+  if (typeof authors === 'string') changes.authors = parseByline(authors);
+
+  // The publisher link is restored by ID when recorded, else by name
+  const publisherId = values('publisherId');
+  const publishedBy = values('publishedBy');
+  if (typeof publisherId === 'string') {
+    changes.publisherId = publisherId;
+  } else if (typeof publishedBy === 'string') {
+    changes.publishedBy = publishedBy;
+  }
+
+  // ISBNs are stored as a pair
+  const isbn10 = values('isbn10');
+  const isbn13 = values('isbn13');
+  if (isbn10 !== undefined || isbn13 !== undefined) {
+    if (recorded('isbn10')) changes.isbn10 = (snapshot.isbn10 as string | null) ?? null;
+    if (recorded('isbn13')) changes.isbn13 = (snapshot.isbn13 as string | null) ?? null;
+  }
+
+  const reverted = REVERTABLE_FIELDS.filter(
+    (field) => values(field) !== undefined && existing[field] !== values(field)
+  );
+
+  const book = await updateBook(id, changes, userId, expectedVersions, { revertedToAuditId: audit.id });
+
+  return { book, auditId: audit.id, snapshot: data.snapshot, reverted, skipped };
 }
 
 /**
  * Delete a book (soft delete)
  */
-export async function deleteBook(id: string, userId: string): Promise<Book> {
+export async function deleteBook(
+  id: string,
+  userId: string,
+  expectedVersions?: number[]
+): Promise<Book> {
   // Check if book exists
   const existing = await bookRepo.findBookById(id, true);
   if (!existing) {
@@ -78,14 +356,25 @@ export async function deleteBook(id: string, userId: string): Promise<Book> {
   if (existing.isDeleted) {
     throw new AppError('ALREADY_DELETED', `Book with ID ${id} is already deleted`, 400);
   }
+
+  assertVersion(existing, expectedVersions);
   
-  return bookRepo.deleteBook(id, userId);
+  const book = await bookRepo.deleteBook(id, userId, { expectedVersions });
+  if (!book) {
+    throw versionConflict(id, expectedVersions);
+  }
+
+  return book;
 }
 
 /**
  * Restore a deleted book
  */
-export async function restoreBook(id: string, userId: string): Promise<Book> {
+export async function restoreBook(
+  id: string,
+  userId: string,
+  expectedVersions?: number[]
+): Promise<Book> {
   // Check if book exists
   const existing = await bookRepo.findBookById(id, true);
   if (!existing) {
@@ -95,6 +384,76 @@ export async function restoreBook(id: string, userId: string): Promise<Book> {
   if (!existing.isDeleted) {
     throw new AppError('NOT_DELETED', `Book with ID ${id} is not deleted`, 400);
   }
+
+  assertVersion(existing, expectedVersions);
   
-  return bookRepo.restoreBook(id, userId);
+  const book = await bookRepo.restoreBook(id, userId, { expectedVersions });
+  if (!book) {
+    throw versionConflict(id, expectedVersions);
+  }
+
+  return book;
+}
+
+/**
+ * Move a book through an editorial workflow transition.
+ *
+ * Allowed source states and roles come from workflowConfig.
+ * 'schedule' requires a future publishAt date.
+ */
+export async function transitionBook(
+  id: string,
+  transition: WorkflowTransition,
+  user: User,
+  options: { publishAt?: string } = {}
+): Promise<Book> {
+  const transitionConfig = getTransitionConfig(transition);
+
+  if (!transitionConfig.roles.includes(user.role as UserRole)) {
+    throw new AppError(
+      'FORBIDDEN',
+      `Access denied. Required roles for '${transition}': ${transitionConfig.roles.join(', ')}`,
+      403
+    );
+  }
+
+  const existing = await bookRepo.findBookById(id);
+  if (!existing) {
+    throw new AppError('NOT_FOUND', `Book with ID ${id} not found`, 404);
+  }
+
+  if (!transitionConfig.from.includes(existing.status)) {
+    throw new AppError(
+      'INVALID_TRANSITION',
+      `Cannot ${transition} a book in status '${existing.status}'. Allowed from: ${transitionConfig.from.join(', ')}`,
+      409
+    );
+  }
+
+  const data: { status: BookStatus; scheduledAt?: Date | null; publishedAt?: Date } = {
+    status: transitionConfig.to,
+  };
+
+  if (transition === 'schedule') {
+    const publishAt = options.publishAt ? new Date(options.publishAt) : null;
+    if (!publishAt || publishAt <= new Date()) {
+      throw new AppError('INVALID_PUBLISH_DATE', 'publishAt must be a future ISO datetime', 400);
+    }
+    data.scheduledAt = publishAt;
+  } else if (existing.scheduledAt) {
+    // Leaving the scheduled state clears the planned date
+    data.scheduledAt = null;
+  }
+
+  // Keep the first publication date on reissue
+  if (transitionConfig.to === 'published' && !existing.publishedAt) {
+    data.publishedAt = new Date();
+  }
+
+  const book = await bookRepo.transitionBook(id, transition, data, user.id);
+  if (!book) {
+    throw versionConflict(id);
+  }
+
+  return book;
 }
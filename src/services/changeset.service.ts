@@ -0,0 +1,276 @@
+import { AuditLog, BookStatus, ChangesetRollbackResult, RollbackStep } from '../types';
+import { isWorkflowTransition } from '../config/workflow.config';
+import { isEventAction } from '../config/audit.config';
+import { config } from '../config';
+import * as auditRepo from '../repositories/audit.repository';
+import * as bookRepo from '../repositories/book.repository';
+import * as authorRepo from '../repositories/author.repository';
+import * as publisherRepo from '../repositories/publisher.repository';
+import * as commentRepo from '../repositories/comment.repository';
+import { AppError } from '../middleware/error.middleware';
+import { runInTransaction } from '../utils/transaction';
+import { formatByline, parseByline } from '../utils/authors';
+import { logger } from '../utils/logger';
+import { containsRedactedValue } from '../utils/redaction';
+import { getChangedFields } from '../utils/diff';
+import { isRelationValue, parseDiff } from './history.service';
+import { resolveAuthorCredits } from './author.service';
+
+/**
+ * Change Set Service
+ *
+ * A change set is every audit entry written by one request (same requestId).
+ * Rolling it back undoes the entries newest first, in one transaction:
+ * creates and restores are soft-deleted, deletes are restored, and updates
+ * (including workflow transitions) get their `before` values back.
+ */
+
+// Fields maintained by the system; never restored from a diff
+const SYSTEM_FIELDS = ['id', 'createdAt', 'updatedAt', 'createdById', 'updatedById', 'version', 'isDeleted'];
+
+interface RollbackHandler {
+  // Fields an update rollback may write
+  fields: string[];
+  softDelete(id: string, userId: string): Promise<unknown>;
+  restore(id: string, userId: string): Promise<unknown>;
+  update(id: string, values: Record<string, unknown>, userId: string): Promise<unknown>;
+}
+
+/**
+ * Convert an ISO string from a diff back to a Date
+ */
+function toDate(value: unknown): Date | null {
+  return typeof value === 'string' ? new Date(value) : null;
+}
+
+/**
+ * Throw when a version-guarded book write lost a race
+ */
+function assertBookWritten<T>(book: T | null, id: string): T {
+  if (!book) {
+    throw new AppError('CONFLICT', `Book with ID ${id} was modified concurrently, please retry`, 409);
+  }
+  return book;
+}
+
+const ROLLBACK_HANDLERS: Record<string, RollbackHandler> = {
+  Book: {
+    fields: ['title', 'authors', 'publishedBy', 'publisherId', 'isbn10', 'isbn13', 'status', 'scheduledAt', 'publishedAt'],
+    softDelete: async (id, userId) => assertBookWritten(await bookRepo.deleteBook(id, userId), id),
+    restore: async (id, userId) => assertBookWritten(await bookRepo.restoreBook(id, userId), id),
+    update: async (id, values, userId) => {
+      const { authors, status, scheduledAt, publishedAt, ...fields } = values;
+      const data: Parameters<typeof bookRepo.updateBook>[1] = { ...fields };
+
+      // Author links follow the restored byline
+      let credits;
+      if (typeof authors === 'string') {
+        credits = await resolveAuthorCredits(parseByline(authors));
+        data.authors = formatByline(credits);
+      }
+      if (status !== undefined) data.status = status as BookStatus;
+      if (scheduledAt !== undefined) data.scheduledAt = toDate(scheduledAt);
+      if (publishedAt !== undefined) data.publishedAt = toDate(publishedAt);
+
+      return assertBookWritten(await bookRepo.updateBook(id, data, userId, { credits }), id);
+    },
+  },
+  Author: {
+    fields: ['name', 'bio'],
+    softDelete: (id) => authorRepo.deleteAuthor(id),
+    restore: (id) => authorRepo.restoreAuthor(id),
+    update: (id, values) => authorRepo.updateAuthor(id, values),
+  },
+  Publisher: {
+    fields: ['name', 'imprints', 'contactName', 'contactEmail', 'contactPhone', 'address', 'website', 'taxId'],
+    softDelete: (id) => publisherRepo.deletePublisher(id),
+    restore: (id) => publisherRepo.restorePublisher(id),
+    update: (id, values) => publisherRepo.updatePublisher(id, values),
+  },
+  BookComment: {
+    fields: ['body', 'field', 'isResolved', 'resolvedAt', 'resolvedById'],
+    softDelete: (id) => commentRepo.deleteComment(id),
+    restore: (id) => commentRepo.restoreComment(id),
+    update: (id, values) => {
+      const { resolvedAt, ...fields } = values;
+      return commentRepo.updateComment(id, {
+        ...fields,
+        ...(resolvedAt !== undefined && { resolvedAt: toDate(resolvedAt) }),
+      });
+    },
+  },
+};
+
+/**
+ * Work out how to undo one audit entry
+ */
+function planStep(entry: AuditLog, irreversible: ChangesetRollbackResult['irreversible']): RollbackStep {
+  const step: RollbackStep = {
+    auditId: entry.id,
+    entity: entry.entity,
+    entityId: entry.entityId,
+    action: entry.action,
+    operation: 'skip',
+  };
+
+  if (isEventAction(entry.action)) {
+    step.reason = 'No state change';
+    return step;
+  }
+
+  const handler = ROLLBACK_HANDLERS[entry.entity];
+  if (!handler) {
+    irreversible.push({ auditId: entry.id, message: `Changes to ${entry.entity} cannot be rolled back` });
+    return step;
+  }
+
+  if (entry.action === 'create' || entry.action === 'restore') {
+    step.operation = 'soft-delete';
+    return step;
+  }
+
+  if (entry.action === 'delete') {
+    step.operation = 'restore';
+    return step;
+  }
+
+  if (entry.action !== 'update' && !isWorkflowTransition(entry.action)) {
+    irreversible.push({ auditId: entry.id, message: `Action '${entry.action}' cannot be rolled back` });
+    return step;
+  }
+
+  // Updates: put back the before values of the changed fields (whole
+  // top-level values, also when only a nested path changed)
+  const diff = parseDiff(entry);
+  const fieldsChanged = getChangedFields(entry.fieldsChanged);
+  const changes: NonNullable<RollbackStep['changes']> = {};
+
+  for (const field of fieldsChanged) {
+    const before = diff?.before[field];
+    const after = diff?.after[field];
+    if (SYSTEM_FIELDS.includes(field) || isRelationValue(before) || isRelationValue(after)) continue;
+
+    if (!handler.fields.includes(field)) {
+      irreversible.push({ auditId: entry.id, message: `Field '${field}' of ${entry.entity} cannot be rolled back` });
+    } else if (containsRedactedValue(before)) {
+      irreversible.push({ auditId: entry.id, message: `Field '${field}' is redacted; its previous value is unknown` });
+    } else {
+      changes[field] = { from: after ?? null, to: before ?? null };
+    }
+  }
+
+  if (Object.keys(changes).length === 0) {
+    step.reason = 'No reversible field changes';
+    return step;
+  }
+
+  step.operation = 'update';
+  step.changes = changes;
+  return step;
+}
+
+/**
+ * Plan the rollback of a change set, newest entry first
+ */
+async function planRollback(requestId: string, preview: boolean): Promise<ChangesetRollbackResult> {
+  const entries = await auditRepo.findAuditsByRequestId(requestId);
+  if (entries.length === 0) {
+    throw new AppError('NOT_FOUND', `No audit entries found for request ${requestId}`, 404);
+  }
+
+  const result: ChangesetRollbackResult = {
+    requestId,
+    preview,
+    steps: [],
+    conflicts: [],
+    irreversible: [],
+  };
+
+  for (const entry of [...entries].reverse()) {
+    result.steps.push(planStep(entry, result.irreversible));
+  }
+
+  // Entities changed by other requests since their last change in this change set
+  const lastChange = new Map<string, AuditLog>();
+  for (const entry of entries) {
+    if (!isEventAction(entry.action)) {
+      lastChange.set(`${entry.entity}:${entry.entityId}`, entry);
+    }
+  }
+  for (const entry of lastChange.values()) {
+    const later = await auditRepo.findEntityChangesSince(entry.entity, entry.entityId, entry.timestamp, requestId);
+    result.conflicts.push(
+      ...later.map(({ id, entity, entityId, action, requestId: laterRequestId, timestamp }) => ({
+        id,
+        entity,
+        entityId,
+        action,
+        requestId: laterRequestId,
+        timestamp,
+      }))
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Roll back (or, with preview, only plan the rollback of) a request's change set.
+ *
+ * Refuses when an entity was changed since by another request, or when an
+ * entry cannot be undone. All writes happen in one transaction and are
+ * audited under the current request.
+ */
+export async function rollbackChangeset(
+  requestId: string,
+  userId: string,
+  preview = false
+): Promise<ChangesetRollbackResult> {
+  if (preview) {
+    return planRollback(requestId, true);
+  }
+
+  const result = await runInTransaction(
+    async () => {
+      const plan = await planRollback(requestId, false);
+
+      if (plan.conflicts.length > 0) {
+        throw new AppError(
+          'CHANGESET_CONFLICT',
+          `Entities of change set ${requestId} have been changed since; roll back later changes first`,
+          409,
+          { conflicts: plan.conflicts }
+        );
+      }
+      if (plan.irreversible.length > 0) {
+        throw new AppError(
+          'CHANGESET_NOT_REVERSIBLE',
+          `Change set ${requestId} contains changes that cannot be rolled back`,
+          422,
+          { irreversible: plan.irreversible }
+        );
+      }
+
+      for (const step of plan.steps) {
+        const handler = ROLLBACK_HANDLERS[step.entity];
+        if (step.operation === 'soft-delete') {
+          await handler.softDelete(step.entityId, userId);
+        } else if (step.operation === 'restore') {
+          await handler.restore(step.entityId, userId);
+        } else if (step.operation === 'update' && step.changes) {
+          const values = Object.fromEntries(
+            Object.entries(step.changes).map(([field, change]) => [field, change.to])
+          );
+          await handler.update(step.entityId, values, userId);
+        }
+      }
+
+      return plan;
+    },
+    { timeout: config.changesets.transactionTimeoutMs }
+  );
+
+  logger.info('Change set rolled back', { requestId, steps: result.steps.length });
+
+  return result;
+}
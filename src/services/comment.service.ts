@@ -0,0 +1,176 @@
+import {
+  BookComment,
+  CommentFilterParams,
+  CreateCommentDto,
+  UpdateCommentDto,
+  User,
+} from '../types';
+import * as commentRepo from '../repositories/comment.repository';
+import * as bookRepo from '../repositories/book.repository';
+import { AppError } from '../middleware/error.middleware';
+
+/**
+ * Book Comment Service
+ *
+ * Business logic for review comments and threaded discussions.
+ * Admins can moderate any comment; other users only edit their own.
+ */
+
+/**
+ * Ensure the book exists and is not deleted
+ */
+async function assertBookExists(bookId: string): Promise<void> {
+  const book = await bookRepo.findBookById(bookId);
+  if (!book) {
+    throw new AppError('NOT_FOUND', `Book with ID ${bookId} not found`, 404);
+  }
+}
+
+/**
+ * Get a comment of a book, or throw 404
+ */
+async function getComment(bookId: string, commentId: string): Promise<BookComment> {
+  const comment = await commentRepo.findCommentById(bookId, commentId);
+  if (!comment) {
+    throw new AppError('NOT_FOUND', `Comment with ID ${commentId} not found`, 404);
+  }
+  return comment;
+}
+
+/**
+ * Nest replies under their parents.
+ * Deleted comments are kept as placeholders (body hidden) only while they have visible replies.
+ */
+function buildThreads(comments: BookComment[]): BookComment[] {
+  const byId = new Map<string, BookComment>();
+  for (const comment of comments) {
+    byId.set(comment.id, { ...comment, replies: [] });
+  }
+
+  const roots: BookComment[] = [];
+  for (const comment of byId.values()) {
+    const parent = comment.parentId ? byId.get(comment.parentId) : undefined;
+    if (parent) {
+      parent.replies!.push(comment);
+    } else {
+      roots.push(comment);
+    }
+  }
+
+  const prune = (list: BookComment[]): BookComment[] =>
+    list
+      .map((comment) => ({ ...comment, replies: prune(comment.replies || []) }))
+      .filter((comment) => !comment.isDeleted || comment.replies.length > 0)
+      .map((comment) => (comment.isDeleted ? { ...comment, body: null } : comment));
+
+  return prune(roots);
+}
+
+/**
+ * Get comment threads of a book.
+ * Filters apply to the thread's root comment.
+ */
+export async function getCommentThreads(
+  bookId: string,
+  filters: CommentFilterParams = {}
+): Promise<BookComment[]> {
+  await assertBookExists(bookId);
+
+  const threads = buildThreads(await commentRepo.findCommentsByBook(bookId));
+
+  return threads.filter(
+    (thread) =>
+      (filters.resolved === undefined || thread.isResolved === filters.resolved) &&
+      (filters.field === undefined || thread.field === filters.field)
+  );
+}
+
+/**
+ * Create a comment or a reply
+ */
+export async function createComment(
+  bookId: string,
+  data: CreateCommentDto,
+  userId: string
+): Promise<BookComment> {
+  await assertBookExists(bookId);
+
+  if (data.parentId) {
+    const parent = await commentRepo.findCommentById(bookId, data.parentId);
+    if (!parent) {
+      throw new AppError(
+        'INVALID_PARENT',
+        `Parent comment with ID ${data.parentId} not found on this book`,
+        400
+      );
+    }
+  }
+
+  return commentRepo.createComment(bookId, data, userId);
+}
+
+/**
+ * Update a comment. Only the comment's creator or an admin may edit it.
+ */
+export async function updateComment(
+  bookId: string,
+  commentId: string,
+  data: UpdateCommentDto,
+  user: User
+): Promise<BookComment> {
+  const existing = await getComment(bookId, commentId);
+
+  if (user.role !== 'admin' && existing.createdById !== user.id) {
+    throw new AppError('FORBIDDEN', 'You can only edit your own comments', 403);
+  }
+
+  // Check if there are actually changes
+  const hasChanges = Object.entries(data).some(
+    ([key, value]) => value !== undefined && existing[key as keyof BookComment] !== value
+  );
+
+  if (!hasChanges) {
+    return existing;
+  }
+
+  return commentRepo.updateComment(commentId, data);
+}
+
+/**
+ * Delete a comment (soft delete, admin moderation)
+ */
+export async function deleteComment(bookId: string, commentId: string): Promise<BookComment> {
+  await getComment(bookId, commentId);
+
+  return commentRepo.deleteComment(commentId);
+}
+
+/**
+ * Resolve or unresolve a thread. Only root comments can be resolved.
+ */
+export async function setCommentResolved(
+  bookId: string,
+  commentId: string,
+  resolved: boolean,
+  userId: string
+): Promise<BookComment> {
+  const existing = await getComment(bookId, commentId);
+
+  if (existing.parentId) {
+    throw new AppError('NOT_A_THREAD', 'Only top-level comments can be resolved', 400);
+  }
+
+  if (existing.isResolved === resolved) {
+    throw new AppError(
+      resolved ? 'ALREADY_RESOLVED' : 'NOT_RESOLVED',
+      `Comment with ID ${commentId} is ${resolved ? 'already' : 'not'} resolved`,
+      400
+    );
+  }
+
+  return commentRepo.updateComment(commentId, {
+    isResolved: resolved,
+    resolvedAt: resolved ? new Date() : null,
+    resolvedById: resolved ? userId : null,
+  });
+}
@@ -0,0 +1,289 @@
+import { createHash } from 'crypto';
+import { AuditDiff, AuditLog, DataSubject, DataSubjectErasure, DataSubjectExport } from '../types';
+import * as auditRepo from '../repositories/audit.repository';
+import * as bookRepo from '../repositories/book.repository';
+import * as userRepo from '../repositories/user.repository';
+import { AppError } from '../middleware/error.middleware';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { runInTransaction } from '../utils/transaction';
+import { computeErasedDataHash, computeErasedAuditHash } from '../utils/audit-chain';
+import { toAuditResponse } from './audit.service';
+
+/**
+ * Data Subject Service
+ *
+ * Answers data subject requests for a user: an access export of everything
+ * held about them, and erasure of their personal data.
+ *
+ * Erasure keeps the user row (books and audit entries reference it) but
+ * replaces its name and email with a stable pseudonym derived from the user
+ * ID. Audit diffs on the user's account, and references to the user in
+ * other diffs (e.g. a book's createdBy, or their exact email), are
+ * rewritten with the pseudonym; free text of other entities is left alone.
+ * The client IP and user agent of the user's own entries are cleared.
+ * Their hash covers the original values, so they keep it (the chain still
+ * links) and store the hash of those values too. The 'erase' entry records
+ * each one's hash over that data hash, which verification checks.
+ */
+
+interface PersonalData {
+  name: string;
+  email: string;
+}
+
+interface Subject extends PersonalData {
+  id: string;
+}
+
+// Audit entry with its diff scrubbed
+interface ScrubbedAudit {
+  id: string;
+  diff: AuditDiff | null;
+  legacyDiff: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  // Hash of the original diff and request details, and of the entry over it
+  // (see utils/audit-chain.ts)
+  erasedDataHash: string;
+  erasedHash: string;
+}
+
+/**
+ * Find a user or throw 404
+ */
+async function findSubject(userId: string): Promise<DataSubject> {
+  const user = await userRepo.findDataSubject(userId);
+
+  if (!user) {
+    throw new AppError('NOT_FOUND', `User with ID ${userId} not found`, 404);
+  }
+
+  return user;
+}
+
+/**
+ * Pseudonym of a user: the same user always gets the same one
+ */
+function pseudonymFor(userId: string): PersonalData {
+  const tag = createHash('sha256').update(userId).digest('hex').slice(0, 12);
+  return { name: `Erased user ${tag}`, email: `erased-${tag}@erased.invalid` };
+}
+
+/**
+ * Escape text for use in a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whether a field holds personal data of a user record
+ */
+function isPersonalField(field: string | undefined): field is keyof PersonalData {
+  return field === 'name' || field === 'email';
+}
+
+/**
+ * Whether a recorded value is the user's record or a reference to it
+ * (e.g. a book's createdBy: { id, name })
+ */
+function isSubjectRecord(value: unknown, subject: Subject): boolean {
+  return value !== null && typeof value === 'object' && (value as Record<string, unknown>).id === subject.id;
+}
+
+/**
+ * Replace a user's personal data in a text of their own account's entries:
+ * their email and name wherever they appear (any case)
+ */
+function scrubText(text: string, from: Subject, to: PersonalData): string {
+  const email = new RegExp(escapeRegExp(from.email), 'gi');
+  const scrubbed = text.replace(email, to.email);
+  if (!from.name) return scrubbed;
+  // Whole words only, so a short name doesn't match inside other words
+  const name = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(from.name)}(?![\\p{L}\\p{N}])`, 'giu');
+  return scrubbed.replace(name, to.name);
+}
+
+/**
+ * Replace a user's personal data in a recorded value: the name and email of
+ * records that are the user (they may hold a name the user no longer has)
+ * and values that are exactly their email. Free text is only rewritten in
+ * entries on the user's own account (`ownAccount`); elsewhere it is other
+ * data (a book titled after someone with the user's name).
+ */
+function scrubValue(value: unknown, from: Subject, to: PersonalData, ownAccount: boolean): unknown {
+  if (typeof value === 'string') {
+    if (ownAccount) return scrubText(value, from, to);
+    return value.toLowerCase() === from.email.toLowerCase() ? to.email : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => scrubValue(item, from, to, ownAccount));
+  }
+  if (value !== null && typeof value === 'object') {
+    const isSubject = isSubjectRecord(value, from);
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+        key,
+        isSubject && isPersonalField(key) && typeof item === 'string'
+          ? to[key]
+          : scrubValue(item, from, to, ownAccount),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Value at a dotted path of a snapshot
+ */
+function valueAt(snapshot: unknown, path: string[]): unknown {
+  return path.reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    snapshot
+  );
+}
+
+/**
+ * Scrub a diff. A path-level change to the name or email of a record that
+ * is the user (e.g. `createdBy.name`) is found through the snapshots.
+ */
+function scrubDiff(diff: AuditDiff, from: Subject, to: PersonalData, ownAccount: boolean): AuditDiff {
+  const changes = diff.changes?.map((change) => {
+    const path = change.path.split('.');
+    const field = path.pop();
+    if (!isPersonalField(field)) return change;
+    if (![diff.before, diff.after].some((snapshot) => isSubjectRecord(valueAt(snapshot, path), from))) {
+      return change;
+    }
+    return {
+      ...change,
+      ...('oldValue' in change && { oldValue: to[field] }),
+      ...('value' in change && { value: to[field] }),
+    };
+  });
+  return scrubValue(changes ? { ...diff, changes } : diff, from, to, ownAccount) as AuditDiff;
+}
+
+/**
+ * Scrub an audit entry's diff (and its legacy text), and the client IP and
+ * user agent of entries the user made or that concern their account. Null
+ * when it holds no personal data.
+ */
+function scrubAudit(entry: AuditLog, from: Subject, to: PersonalData): ScrubbedAudit | null {
+  const ownAccount = entry.entity === 'User' && entry.entityId === from.id;
+  const diff = entry.diff ? scrubDiff(entry.diff, from, to, ownAccount) : null;
+  const legacyDiff = entry.legacyDiff ? JSON.parse(entry.legacyDiff) : null;
+  const legacy = legacyDiff ? scrubDiff(legacyDiff, from, to, ownAccount) : null;
+
+  const diffChanged = JSON.stringify(diff) !== JSON.stringify(entry.diff ?? null);
+  const legacyChanged = JSON.stringify(legacy) !== JSON.stringify(legacyDiff);
+  const clearDetails = (ownAccount || entry.actorId === from.id) && !!(entry.ip || entry.userAgent);
+  if (!diffChanged && !legacyChanged && !clearDetails) return null;
+
+  const erasedDataHash = computeErasedDataHash(entry);
+  return {
+    id: entry.id,
+    diff,
+    legacyDiff: legacyChanged ? JSON.stringify(legacy) : entry.legacyDiff ?? null,
+    ip: clearDetails ? null : entry.ip ?? null,
+    userAgent: clearDetails ? null : entry.userAgent ?? null,
+    erasedDataHash,
+    erasedHash: computeErasedAuditHash(entry, erasedDataHash),
+  };
+}
+
+/**
+ * Export everything held about a user: their record (without credentials),
+ * the books they created or last updated, the audit entries they made or
+ * that concern their account, and the records they viewed. The export is
+ * audited as 'data_export'.
+ */
+export async function exportDataSubject(userId: string, actorId: string): Promise<DataSubjectExport> {
+  const user = await findSubject(userId);
+
+  const [books, audits, reads] = await Promise.all([
+    bookRepo.findBooksByUser(user.id),
+    auditRepo.findDataSubjectAudits(user.id),
+    auditRepo.findDataSubjectReads(user.id),
+  ]);
+
+  await auditRepo.createAuditLog({
+    entity: 'User',
+    entityId: user.id,
+    action: 'data_export',
+    actorId,
+    after: { books: books.length, audits: audits.length, reads: reads.length },
+  });
+
+  logger.info('User data exported', { userId: user.id, books: books.length, audits: audits.length });
+
+  return {
+    exportedAt: new Date().toISOString(),
+    user,
+    books,
+    audits: audits.map(toAuditResponse),
+    reads,
+  };
+}
+
+/**
+ * Erase a user's personal data: pseudonymize the user row, drop their
+ * credentials and scrub references to them from audit diffs, in one
+ * transaction. The erasure is recorded as an 'erase' entry listing the
+ * scrubbed entries and their erased hashes.
+ */
+export async function eraseDataSubject(userId: string, actorId: string): Promise<DataSubjectErasure> {
+  if (userId === userRepo.ANONYMOUS_USER_ID) {
+    throw new AppError('CANNOT_ERASE', 'The anonymous actor holds no personal data', 400);
+  }
+  if (userId === actorId) {
+    throw new AppError('CANNOT_ERASE_SELF', 'You cannot erase your own account', 400);
+  }
+
+  const user = await findSubject(userId);
+  if (user.erasedAt) {
+    throw new AppError('ALREADY_ERASED', `User ${userId} was already erased`, 409);
+  }
+
+  const pseudonym = pseudonymFor(user.id);
+
+  const result = await runInTransaction(
+    async () => {
+      const scrubbed = (await auditRepo.findAuditsWithUserData(user))
+        .map((entry) => scrubAudit(entry, user, pseudonym))
+        .filter((entry): entry is ScrubbedAudit => entry !== null);
+
+      const erasure = await auditRepo.createAuditLog({
+        entity: 'User',
+        entityId: user.id,
+        action: 'erase',
+        actorId,
+        after: {
+          auditIds: scrubbed.map((entry) => entry.id),
+          erasedHashes: Object.fromEntries(scrubbed.map((entry) => [entry.id, entry.erasedHash])),
+        },
+      });
+      if (!erasure) {
+        throw new AppError('ERASURE_NOT_RECORDED', 'Erasing a user cannot be audited', 409);
+      }
+
+      await auditRepo.scrubAudits(scrubbed, erasure.id);
+      await auditRepo.clearReadDetails(user.id);
+      const erased = await userRepo.eraseUser(user.id, pseudonym);
+
+      return {
+        userId: user.id,
+        pseudonym,
+        erasedAt: erased.erasedAt!,
+        scrubbedAudits: scrubbed.length,
+        eraseAuditId: erasure.id,
+      };
+    },
+    { timeout: config.erasure.transactionTimeoutMs }
+  );
+
+  logger.info('User personal data erased', { userId: user.id, scrubbedAudits: result.scrubbedAudits });
+
+  return result;
+}
@@ -0,0 +1,230 @@
+import { Prisma } from '@prisma/client';
+import {
+  AuditExportFormat,
+  AuditFilterParams,
+  AuditLog,
+  Book,
+  BookFilterParams,
+  ExportFormat,
+  User,
+} from '../types';
+import { formatCsvRow } from '../utils/csv';
+import { formatOnixFooter, formatOnixHeader, formatOnixProduct } from '../utils/onix';
+import * as bookRepo from '../repositories/book.repository';
+import * as auditRepo from '../repositories/audit.repository';
+import { getAuditableEntities, getEntityAuditConfig } from '../config/audit.config';
+import { config } from '../config';
+import { validateBookFilters } from './book.service';
+import { toAuditResponse, validateAuditFilters } from './audit.service';
+import { parseDiff } from './history.service';
+
+/**
+ * Export Service
+ *
+ * Streams the book catalog as CSV, JSON Lines or ONIX 3.0, and the audit
+ * trail as CSV or JSON Lines. Rows are read page by page with the list
+ * endpoints' cursor pagination, so memory use does not grow with the data.
+ */
+
+// CSV columns; the first six match the import format
+const CSV_COLUMNS: (keyof Book)[] = [
+  'title',
+  'authors',
+  'publishedBy',
+  'publisherId',
+  'isbn10',
+  'isbn13',
+  'id',
+  'status',
+  'scheduledAt',
+  'publishedAt',
+  'version',
+  'isDeleted',
+  'createdById',
+  'updatedById',
+  'createdAt',
+  'updatedAt',
+];
+
+// Response content type and file extension per format
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  jsonl: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'jsonl' },
+  onix: { contentType: 'application/xml; charset=utf-8', extension: 'xml' },
+};
+
+/**
+ * Iterate over all books matching the filters, one page at a time
+ */
+async function* iterateBooks(filters: BookFilterParams, includeDeleted: boolean): AsyncGenerator<Book> {
+  const limit = Math.min(config.export.batchSize, config.pagination.maxLimit);
+  let cursor: string | undefined;
+
+  do {
+    const page = await bookRepo.findBooks({ limit, cursor }, filters, includeDeleted);
+    yield* page.items;
+    cursor = page.hasMore ? page.nextCursor : undefined;
+  } while (cursor);
+}
+
+/**
+ * Format the exported books as chunks of text
+ */
+async function* formatBooks(
+  format: ExportFormat,
+  filters: BookFilterParams,
+  includeDeleted: boolean
+): AsyncGenerator<string> {
+  if (format === 'csv') {
+    yield formatCsvRow(CSV_COLUMNS);
+  } else if (format === 'onix') {
+    yield formatOnixHeader(config.export.onixSenderName);
+  }
+
+  for await (const book of iterateBooks(filters, includeDeleted)) {
+    if (format === 'csv') {
+      yield formatCsvRow(CSV_COLUMNS.map((column) => book[column]));
+    } else if (format === 'onix') {
+      yield formatOnixProduct(book);
+    } else {
+      yield JSON.stringify(book) + '\n';
+    }
+  }
+
+  if (format === 'onix') {
+    yield formatOnixFooter();
+  }
+}
+
+/**
+ * Export books matching the list filters.
+ *
+ * Filters are validated up front, so errors are raised before anything is
+ * streamed; the returned iterable yields the formatted output.
+ */
+export function exportBooks(
+  format: ExportFormat,
+  filters: BookFilterParams = {},
+  includeDeleted = false
+): AsyncGenerator<string> {
+  validateBookFilters(filters);
+  return formatBooks(format, filters, includeDeleted);
+}
+
+// Audit CSV columns; the flattened diff (before.<field>, after.<field>) follows
+const AUDIT_CSV_COLUMNS = [
+  'id',
+  'timestamp',
+  'entity',
+  'entityId',
+  'action',
+  'actorId',
+  'actorName',
+  'actorEmail',
+  'requestId',
+  'fieldsChanged',
+  'revertedToAuditId',
+  'ip',
+  'userAgent',
+  'method',
+  'route',
+  'authMethod',
+];
+
+type AuditExportEntry = AuditLog & { actor?: Pick<User, 'id' | 'name' | 'email'> };
+
+/**
+ * Fields recorded in an entity's audit diffs: its scalar columns minus excluded fields
+ */
+function getDiffFields(entity: string): string[] {
+  // Entities tracked for reads only have no diffs
+  const auditConfig = getEntityAuditConfig(entity);
+  if (!auditConfig) return [];
+
+  const model = Prisma.dmmf.datamodel.models.find((candidate) => candidate.name === entity);
+  const exclude = auditConfig.exclude;
+
+  return (model?.fields ?? [])
+    .filter((field) => field.kind !== 'object' && !exclude.includes(field.name))
+    .map((field) => field.name);
+}
+
+/**
+ * Format a diff value for a CSV cell (arrays and objects as JSON)
+ */
+function formatDiffValue(value: unknown): unknown {
+  return value !== null && typeof value === 'object' ? JSON.stringify(value) : value;
+}
+
+/**
+ * Iterate over all audit entries matching the filters, newest first, one
+ * page at a time (keyset on timestamp, id)
+ */
+async function* iterateAudits(filters: AuditFilterParams): AsyncGenerator<AuditExportEntry> {
+  const limit = Math.min(config.export.batchSize, config.pagination.maxLimit);
+  let cursor: string | undefined;
+
+  do {
+    const page = await auditRepo.findAuditLogs({ ...filters, limit: String(limit), cursor });
+    yield* page.items as AuditExportEntry[];
+    cursor = page.hasMore ? page.nextCursor : undefined;
+  } while (cursor);
+}
+
+/**
+ * Format the exported audit entries as chunks of text
+ */
+async function* formatAudits(format: AuditExportFormat, filters: AuditFilterParams): AsyncGenerator<string> {
+  // One before/after column pair per field of the exported entities
+  const entities = filters.entity ? [filters.entity] : getAuditableEntities();
+  const diffFields = [...new Set(entities.flatMap(getDiffFields))];
+
+  if (format === 'csv') {
+    yield formatCsvRow([
+      ...AUDIT_CSV_COLUMNS,
+      ...diffFields.flatMap((field) => [`before.${field}`, `after.${field}`]),
+    ]);
+  }
+
+  for await (const entry of iterateAudits(filters)) {
+    if (format === 'csv') {
+      const diff = parseDiff(entry);
+      yield formatCsvRow([
+        entry.id,
+        entry.timestamp,
+        entry.entity,
+        entry.entityId,
+        entry.action,
+        entry.actorId,
+        entry.actor?.name,
+        entry.actor?.email,
+        entry.requestId,
+        entry.fieldsChanged.join(','),
+        entry.revertedToAuditId,
+        entry.ip,
+        entry.userAgent,
+        entry.method,
+        entry.route,
+        entry.authMethod,
+        ...diffFields.flatMap((field) => [
+          formatDiffValue(diff?.before[field]),
+          formatDiffValue(diff?.after[field]),
+        ]),
+      ]);
+    } else {
+      // Same shape as the items of GET /api/audits
+      yield JSON.stringify(toAuditResponse(entry)) + '\n';
+    }
+  }
+}
+
+/**
+ * Export audit entries matching the audit list filters.
+ *
+ * Filters are validated up front, so errors are raised before anything is
+ * streamed; the returned iterable yields the formatted output.
+ */
+export function exportAudits(format: AuditExportFormat, filters: AuditFilterParams = {}): AsyncGenerator<string> {
+  validateAuditFilters(filters);
+  return formatAudits(format, filters);
+}
@@ -0,0 +1,179 @@
+import { AuditLog, EntitySnapshot, EntityVersion, User } from '../types';
+import { getEntityAuditConfig, getRedactedFields, isEventAction } from '../config/audit.config';
+import * as auditRepo from '../repositories/audit.repository';
+import * as bookRepo from '../repositories/book.repository';
+import { AppError } from '../middleware/error.middleware';
+import { recordRead } from './audit.service';
+
+/**
+ * History Service
+ *
+ * Rebuilds past states of an entity by replaying its audit trail. Each audit
+ * entry stores the (processed) before/after snapshots, so the state after an
+ * entry is the previous state with the entry's `after` values applied.
+ * Fields the audit config excludes or redacts were never recorded; they are
+ * left out of rebuilt states and reported as unknown.
+ */
+
+type AuditEntry = AuditLog & { actor?: Pick<User, 'id' | 'name' | 'email'> };
+
+/**
+ * Before/after snapshots of an audit entry's diff
+ */
+export function parseDiff(entry: AuditLog): { before: Record<string, unknown>; after: Record<string, unknown> } | null {
+  if (!entry.diff) return null;
+  return { before: entry.diff.before ?? {}, after: entry.diff.after ?? {} };
+}
+
+/**
+ * Whether a snapshot value is a relation include (e.g. createdBy) rather than a field
+ */
+export function isRelationValue(value: unknown): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Keep the recorded field values of a snapshot
+ */
+function recordedFields(snapshot: Record<string, unknown>, unknownFields: string[]): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(snapshot)) {
+    if (!isRelationValue(value) && !unknownFields.includes(key)) {
+      fields[key] = value;
+    }
+  }
+  return fields;
+}
+
+/**
+ * Fields whose values the audit trail does not record for an entity
+ */
+export function getUnknownFields(entity: string): string[] {
+  const config = getEntityAuditConfig(entity);
+  return config ? [...config.exclude, ...getRedactedFields(config)] : [];
+}
+
+/**
+ * Apply one audit entry to a state, returning the state after the entry
+ */
+export function applyAuditEntry(
+  state: Record<string, unknown> | null,
+  entry: AuditLog,
+  unknownFields: string[]
+): Record<string, unknown> | null {
+  // Events (logins, security events) don't change the entity
+  const diff = parseDiff(entry);
+  if (!diff || isEventAction(entry.action)) return state;
+
+  switch (entry.action) {
+    case 'create':
+      return recordedFields(diff.after, unknownFields);
+    case 'delete':
+      // Soft delete: the entry records the state before deletion
+      return {
+        ...state,
+        ...recordedFields(diff.before, unknownFields),
+        isDeleted: true,
+        updatedById: entry.actorId,
+      };
+    default: {
+      // Unset values are left out of snapshots: a field recorded before but
+      // not after was cleared (e.g. scheduledAt on unschedule)
+      const after = recordedFields(diff.after, unknownFields);
+      const cleared = Object.keys(recordedFields(diff.before, unknownFields)).filter((key) => !(key in after));
+      return {
+        ...state,
+        ...Object.fromEntries(cleared.map((key) => [key, null])),
+        ...after,
+      };
+    }
+  }
+}
+
+/**
+ * Replay an entity's audit trail into a list of versions
+ */
+export function replayAuditTrail(entity: string, entries: AuditLog[]): EntityVersion[] {
+  const unknownFields = getUnknownFields(entity);
+  const versions: EntityVersion[] = [];
+  let state: Record<string, unknown> | null = null;
+
+  for (const entry of entries as AuditEntry[]) {
+    const next = applyAuditEntry(state, entry, unknownFields);
+    if (!next || next === state) continue;
+    state = next;
+
+    versions.push({
+      auditId: entry.id,
+      action: entry.action,
+      timestamp: entry.timestamp,
+      actorId: entry.actorId,
+      actor: entry.actor,
+      requestId: entry.requestId,
+      fieldsChanged: entry.fieldsChanged,
+      revertedToAuditId: entry.revertedToAuditId,
+      state,
+    });
+  }
+
+  return versions;
+}
+
+/**
+ * Make sure the book exists (deleted books only when allowed)
+ */
+async function assertBookExists(id: string, includeDeleted: boolean): Promise<void> {
+  const book = await bookRepo.findBookById(id, includeDeleted);
+  if (!book) {
+    throw new AppError('NOT_FOUND', `Book with ID ${id} not found`, 404);
+  }
+}
+
+/**
+ * Get the chronological version history of a book (audited as a read of the book)
+ */
+export async function getBookHistory(
+  id: string,
+  includeDeleted = false
+): Promise<{ unknownFields: string[]; items: EntityVersion[] }> {
+  await assertBookExists(id, includeDeleted);
+
+  const entries = await auditRepo.findEntityAuditTrail('Book', id);
+
+  await recordRead('Book', id);
+
+  return {
+    unknownFields: getUnknownFields('Book'),
+    items: replayAuditTrail('Book', entries),
+  };
+}
+
+/**
+ * Rebuild a book as it was at a point in time (audited as a read of the book)
+ */
+export async function getBookAsOf(id: string, asOf: Date, includeDeleted = false): Promise<EntitySnapshot> {
+  await assertBookExists(id, includeDeleted);
+
+  const entries = await auditRepo.findEntityAuditTrail('Book', id, asOf);
+  const versions = replayAuditTrail('Book', entries);
+  const latest = versions[versions.length - 1];
+
+  if (!latest) {
+    throw new AppError(
+      'NO_HISTORY',
+      `Book with ID ${id} has no recorded history at ${asOf.toISOString()}`,
+      404
+    );
+  }
+
+  await recordRead('Book', id);
+
+  return {
+    entity: 'Book',
+    entityId: id,
+    asOf,
+    auditId: latest.auditId,
+    state: latest.state,
+    unknownFields: getUnknownFields('Book'),
+  };
+}
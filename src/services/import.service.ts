@@ -0,0 +1,264 @@
+import { ZodError } from 'zod';
+import { CreateBookDto, ImportFormat, ImportReport, ImportRowReport } from '../types';
+import { createBookSchema } from '../validation/schemas';
+import { parseCsv } from '../utils/csv';
+import { splitAuthorNames } from '../utils/authors';
+import { isbn10To13 } from '../utils/isbn';
+import { getRequestId } from '../utils/async-context';
+import { runInTransaction } from '../utils/transaction';
+import { logger } from '../utils/logger';
+import * as bookRepo from '../repositories/book.repository';
+import * as authorRepo from '../repositories/author.repository';
+import * as publisherRepo from '../repositories/publisher.repository';
+import { AppError } from '../middleware/error.middleware';
+import { config } from '../config';
+import * as bookService from './book.service';
+
+/**
+ * Book Import Service
+ *
+ * Bulk-creates books from CSV or JSON Lines. Every row is validated with
+ * createBookSchema and checked against the catalog. A real import is
+ * all-or-nothing: it runs in one transaction, and each created book gets its
+ * own audit entry under the request's requestId.
+ */
+
+// Columns understood in CSV imports (first line is the header)
+const CSV_COLUMNS = ['title', 'authors', 'publishedBy', 'publisherId', 'isbn10', 'isbn13'];
+
+interface ParsedRecord {
+  row: number;
+  data?: Record<string, unknown>;
+  parseError?: string;
+}
+
+/**
+ * Parse CSV text into records keyed by header column.
+ * Row numbers count data rows, starting at 1 after the header.
+ */
+function parseCsvRecords(text: string, reportWarnings: string[]): ParsedRecord[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const columns = header.map((column) => column.trim());
+  for (const column of columns) {
+    if (!CSV_COLUMNS.includes(column)) {
+      reportWarnings.push(`Unknown column '${column}' ignored`);
+    }
+  }
+
+  return rows.map((fields, index) => {
+    const row = index + 1;
+    if (fields.length !== columns.length) {
+      return { row, parseError: `Expected ${columns.length} fields, got ${fields.length}` };
+    }
+
+    // Empty cells are treated as missing values
+    const data: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      const value = fields[i].trim();
+      if (CSV_COLUMNS.includes(column) && value !== '') {
+        data[column] = value;
+      }
+    });
+    return { row, data };
+  });
+}
+
+/**
+ * Parse JSON Lines into records. Row numbers are line numbers.
+ */
+function parseJsonLines(text: string): ParsedRecord[] {
+  const records: ParsedRecord[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    const row = index + 1;
+    try {
+      const data = JSON.parse(line);
+      if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        records.push({ row, parseError: 'Line must be a JSON object' });
+      } else {
+        records.push({ row, data });
+      }
+    } catch {
+      records.push({ row, parseError: 'Invalid JSON' });
+    }
+  });
+
+  return records;
+}
+
+/**
+ * Format zod issues as row errors
+ */
+function formatIssues(error: ZodError): { field: string; message: string }[] {
+  return error.issues.map((issue) => ({
+    field: issue.path.join('.'),
+    message: issue.message,
+  }));
+}
+
+/**
+ * Validate rows against the schema and the current catalog.
+ * Returns the validated data for each valid row, keyed by row number.
+ */
+async function validateRecords(
+  records: ParsedRecord[]
+): Promise<{ rows: ImportRowReport[]; valid: Map<number, CreateBookDto> }> {
+  const rows: ImportRowReport[] = [];
+  const valid = new Map<number, CreateBookDto>();
+
+  // Names seen in earlier rows, so "will be created" is reported once
+  const seenAuthors = new Set<string>();
+  const seenPublishers = new Set<string>();
+  const seenIsbns = new Map<string, number>();
+
+  for (const record of records) {
+    const report: ImportRowReport = { row: record.row, status: 'valid', errors: [], warnings: [] };
+    rows.push(report);
+
+    if (record.parseError) {
+      report.errors.push({ field: '', message: record.parseError });
+      report.status = 'invalid';
+      continue;
+    }
+
+    const parsed = createBookSchema.safeParse(record.data);
+    if (!parsed.success) {
+      report.errors.push(...formatIssues(parsed.error));
+      report.status = 'invalid';
+      continue;
+    }
+    const data = parsed.data;
+
+    // ISBNs: unique within the file and in the catalog (including deleted books)
+    const isbn13 = data.isbn13 || (data.isbn10 ? isbn10To13(data.isbn10) : null);
+    if (isbn13) {
+      const firstRow = seenIsbns.get(isbn13);
+      if (firstRow !== undefined) {
+        report.errors.push({ field: 'isbn13', message: `Duplicate ISBN ${isbn13} (also in row ${firstRow})` });
+      } else {
+        seenIsbns.set(isbn13, record.row);
+        if (await bookRepo.findBookByIsbn13(isbn13, true)) {
+          report.errors.push({ field: 'isbn13', message: `A book with ISBN ${isbn13} already exists` });
+        }
+      }
+    }
+
+    // Publisher: an ID must exist; a new name will be created
+    if (data.publisherId) {
+      if (!(await publisherRepo.findPublisherById(data.publisherId))) {
+        report.errors.push({ field: 'publisherId', message: `Publisher with ID ${data.publisherId} not found` });
+      }
+    } else if (data.publishedBy) {
+      const key = data.publishedBy.trim().toLowerCase();
+      const publisher = await publisherRepo.findPublisherByName(data.publishedBy.trim());
+      if (publisher?.isDeleted) {
+        report.errors.push({ field: 'publishedBy', message: `Publisher '${publisher.name}' has been deleted` });
+      } else if (!publisher && !seenPublishers.has(key)) {
+        report.warnings.push(`Publisher '${data.publishedBy.trim()}' will be created`);
+      }
+      seenPublishers.add(key);
+    }
+
+    // Authors: IDs must exist; new names will be created
+    const credits = typeof data.authors === 'string'
+      ? splitAuthorNames(data.authors).map((name) => ({ name, authorId: undefined }))
+      : data.authors;
+    const ids = credits.filter((credit) => credit.authorId).map((credit) => credit.authorId!);
+    const found = new Set((await authorRepo.findAuthorsByIds(ids)).map((author) => author.id));
+    for (const credit of credits) {
+      if (credit.authorId) {
+        if (!found.has(credit.authorId)) {
+          report.errors.push({ field: 'authors', message: `Author with ID ${credit.authorId} not found` });
+        }
+      } else if (credit.name) {
+        const key = credit.name.toLowerCase();
+        if (!seenAuthors.has(key) && !(await authorRepo.findAuthorByName(credit.name))) {
+          report.warnings.push(`Author '${credit.name}' will be created`);
+        }
+        seenAuthors.add(key);
+      }
+    }
+
+    if (report.errors.length > 0) {
+      report.status = 'invalid';
+    } else {
+      valid.set(record.row, data);
+    }
+  }
+
+  return { rows, valid };
+}
+
+/**
+ * Import books from CSV or JSON Lines.
+ *
+ * With dryRun, rows are only validated. Otherwise every row must be valid:
+ * all books are created in a single transaction, or none are (422 with the report).
+ */
+export async function importBooks(
+  text: string,
+  format: ImportFormat,
+  userId: string,
+  dryRun: boolean
+): Promise<ImportReport> {
+  const warnings: string[] = [];
+  const records = format === 'csv' ? parseCsvRecords(text, warnings) : parseJsonLines(text);
+
+  if (records.length === 0) {
+    throw new AppError('EMPTY_IMPORT', 'No rows to import', 400);
+  }
+
+  if (records.length > config.import.maxRows) {
+    throw new AppError(
+      'IMPORT_TOO_LARGE',
+      `Import has ${records.length} rows; the maximum is ${config.import.maxRows}`,
+      413
+    );
+  }
+
+  const { rows, valid } = await validateRecords(records);
+
+  const report: ImportReport = {
+    format,
+    dryRun,
+    requestId: getRequestId(),
+    total: rows.length,
+    valid: valid.size,
+    invalid: rows.length - valid.size,
+    created: 0,
+    warnings,
+    rows,
+  };
+
+  if (dryRun) {
+    return report;
+  }
+
+  if (report.invalid > 0) {
+    throw new AppError(
+      'IMPORT_INVALID',
+      `${report.invalid} row(s) failed validation; nothing was imported`,
+      422,
+      report
+    );
+  }
+
+  await runInTransaction(
+    async () => {
+      for (const row of rows) {
+        const book = await bookService.createBook(valid.get(row.row)!, userId);
+        row.status = 'created';
+        row.bookId = book.id;
+        report.created++;
+      }
+    },
+    { timeout: config.import.transactionTimeoutMs }
+  );
+
+  logger.info('Books imported', { format, created: report.created });
+
+  return report;
+}
@@ -1,3 +1,12 @@
 export * as bookService from './book.service';
 export * as auditService from './audit.service';
 export * as authService from './auth.service';
+export * as authorService from './author.service';
+export * as publisherService from './publisher.service';
+export * as commentService from './comment.service';
+export * as importService from './import.service';
+export * as exportService from './export.service';
+export * as historyService from './history.service';
+export * as changesetService from './changeset.service';
+export * as retentionService from './retention.service';
+export * as dataSubjectService from './data-subject.service';
@@ -0,0 +1,119 @@
+import {
+  CreatePublisherDto,
+  Publisher,
+  PublisherFilterParams,
+  UpdatePublisherDto,
+} from '../types';
+import { PaginatedResult, PaginationParams } from '../utils/pagination';
+import * as publisherRepo from '../repositories/publisher.repository';
+import { AppError } from '../middleware/error.middleware';
+
+/**
+ * Publisher Service
+ *
+ * Business logic layer for publisher operations.
+ */
+
+/**
+ * Get publishers with search and pagination
+ */
+export async function getPublishers(
+  params: PaginationParams,
+  filters: PublisherFilterParams = {}
+): Promise<PaginatedResult<Publisher>> {
+  return publisherRepo.findPublishers(params, filters);
+}
+
+/**
+ * Get publisher by ID
+ */
+export async function getPublisherById(id: string): Promise<Publisher> {
+  const publisher = await publisherRepo.findPublisherById(id);
+
+  if (!publisher) {
+    throw new AppError('NOT_FOUND', `Publisher with ID ${id} not found`, 404);
+  }
+
+  return publisher;
+}
+
+/**
+ * Create a new publisher
+ */
+export async function createPublisher(data: CreatePublisherDto): Promise<Publisher> {
+  return publisherRepo.createPublisher(data);
+}
+
+/**
+ * Update a publisher
+ */
+export async function updatePublisher(id: string, data: UpdatePublisherDto): Promise<Publisher> {
+  const existing = await getPublisherById(id);
+
+  // Check if there are actually changes (arrays compared by value)
+  const hasChanges = Object.entries(data).some(
+    ([key, value]) =>
+      value !== undefined &&
+      JSON.stringify(existing[key as keyof Publisher]) !== JSON.stringify(value)
+  );
+
+  if (!hasChanges) {
+    return existing;
+  }
+
+  return publisherRepo.updatePublisher(id, data);
+}
+
+/**
+ * Delete a publisher (soft delete)
+ *
+ * Refused while the publisher still has active books.
+ */
+export async function deletePublisher(id: string): Promise<Publisher> {
+  await getPublisherById(id);
+
+  const bookCount = await publisherRepo.countActiveBooksForPublisher(id);
+  if (bookCount > 0) {
+    throw new AppError(
+      'PUBLISHER_IN_USE',
+      `Publisher with ID ${id} has ${bookCount} active book(s)`,
+      409
+    );
+  }
+
+  return publisherRepo.deletePublisher(id);
+}
+
+/**
+ * Resolve the publisher for a book.
+ *
+ * `publisherId` takes precedence. A bare `publishedBy` name is matched
+ * case-insensitively, and a new publisher is created when none matches.
+ */
+export async function resolvePublisher(input: {
+  publisherId?: string;
+  publishedBy?: string;
+}): Promise<Publisher> {
+  if (input.publisherId) {
+    const publisher = await publisherRepo.findPublisherById(input.publisherId);
+    if (!publisher) {
+      throw new AppError('INVALID_PUBLISHER', `Publisher with ID ${input.publisherId} not found`, 400);
+    }
+    return publisher;
+  }
+
+  const name = input.publishedBy?.trim();
+  if (!name) {
+    throw new AppError('INVALID_PUBLISHER', 'Either publisherId or publishedBy is required', 400);
+  }
+
+  const existing = await publisherRepo.findPublisherByName(name);
+  if (existing) {
+    if (existing.isDeleted) {
+      throw new AppError('INVALID_PUBLISHER', `Publisher '${existing.name}' has been deleted`, 400);
+    }
+    return existing;
+  }
+
+  return publisherRepo.createPublisher({ name });
+}
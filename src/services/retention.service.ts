@@ -0,0 +1,297 @@
+import {
+  AuditArchiveImportResult,
+  AuditArchiveManifest,
+  AuditArchiveSummary,
+  AuditDiff,
+  AuditLog,
+  AuditSweepResult,
+} from '../types';
+import { getAuditRetentionPolicies } from '../config/audit.config';
+import { config } from '../config';
+import * as auditRepo from '../repositories/audit.repository';
+import * as userRepo from '../repositories/user.repository';
+import { AppError } from '../middleware/error.middleware';
+import { runInTransaction } from '../utils/transaction';
+import { ChainedAuditFields, computeAuditHash, computeErasedAuditHash } from '../utils/audit-chain';
+import {
+  archiveDate,
+  createArchiveId,
+  listAuditArchiveManifests,
+  readAuditArchive,
+  readAuditArchiveManifest,
+  removeAuditArchive,
+  writeAuditArchive,
+} from '../utils/audit-archive';
+import { logger } from '../utils/logger';
+
+/**
+ * Audit Retention Service
+ *
+ * Removes audit entries older than their entity's `retentionDays`
+ * (audit.config.ts). Unless `archive` is false, expired entries are first
+ * written to compressed, date-partitioned archive files. Removed entries keep
+ * their hash chain link, so the chain still verifies. An archive can be
+ * re-imported for an investigation and released again afterwards.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+
+// Whether a sweep is running in this process
+let sweeping = false;
+
+// Audit entry as stored in an archive line
+type ArchivedAuditRow = ChainedAuditFields & {
+  diff: AuditDiff | null;
+  fieldsChanged: string[];
+  sequence: number;
+  hash: string | null;
+  erasedBy: string | null;
+  erasedDataHash: string | null;
+};
+
+/**
+ * Write entries to one archive per UTC day. Returns the archive ID of each entry.
+ */
+async function archiveEntries(entity: string, entries: AuditLog[]): Promise<Map<string, string>> {
+  const root = config.auditArchive.directory;
+  const byDay = new Map<string, AuditLog[]>();
+  for (const entry of entries) {
+    const day = archiveDate(entry.timestamp);
+    byDay.set(day, [...(byDay.get(day) ?? []), entry]);
+  }
+
+  const archiveIds = new Map<string, string>();
+  const written: string[] = [];
+  try {
+    for (const [day, dayEntries] of byDay) {
+      const id = createArchiveId(entity, day);
+      await writeAuditArchive(root, id, entity, dayEntries);
+      written.push(id);
+      for (const entry of dayEntries) {
+        archiveIds.set(entry.id, id);
+      }
+    }
+  } catch (error) {
+    await Promise.all(written.map((id) => removeAuditArchive(root, id)));
+    throw error;
+  }
+
+  return archiveIds;
+}
+
+/**
+ * Archive (unless disabled) and remove expired audit entries of every entity
+ * with a retention period. Runs in batches; each batch is removed in one
+ * transaction after its archive files are written.
+ */
+export async function sweepExpiredAudits(now = new Date()): Promise<AuditSweepResult[]> {
+  const results: AuditSweepResult[] = [];
+  const batchSize = config.auditArchive.batchSize;
+
+  for (const policy of getAuditRetentionPolicies()) {
+    const result: AuditSweepResult = {
+      entity: policy.entity,
+      cutoff: new Date(now.getTime() - policy.retentionDays * DAY_MS),
+      removed: 0,
+      archives: [],
+    };
+    results.push(result);
+
+    for (;;) {
+      const entries = await auditRepo.findExpiredAudits(policy.entity, result.cutoff, batchSize);
+      if (entries.length === 0) break;
+
+      const archiveIds = policy.archive ? await archiveEntries(policy.entity, entries) : new Map<string, string>();
+      const batchArchives = [...new Set(archiveIds.values())];
+
+      try {
+        result.removed += await runInTransaction(() => auditRepo.removeAudits(entries, archiveIds));
+      } catch (error) {
+        // Not removed (e.g. another sweeper got there first): drop the archives written for them
+        await Promise.all(batchArchives.map((id) => removeAuditArchive(config.auditArchive.directory, id)));
+        throw error;
+      }
+      result.archives.push(...batchArchives);
+
+      if (entries.length < batchSize) break;
+    }
+
+    if (result.removed > 0) {
+      logger.info('Expired audit entries removed', {
+        entity: result.entity,
+        removed: result.removed,
+        archives: result.archives.length,
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Run the retention sweep periodically (AUDIT_SWEEP_INTERVAL_MINUTES).
+ * Does nothing when disabled or no entity has a retention period.
+ */
+export function startAuditRetentionSweeper(): void {
+  const minutes = config.auditArchive.sweepIntervalMinutes;
+  if (minutes <= 0 || getAuditRetentionPolicies().length === 0) return;
+
+  const timer = setInterval(async () => {
+    if (sweeping) return;
+    sweeping = true;
+    try {
+      await sweepExpiredAudits();
+    } catch (error) {
+      logger.error('Audit retention sweep failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      sweeping = false;
+    }
+  }, minutes * 60 * 1000);
+
+  // Don't keep the process alive for the sweeper
+  timer.unref();
+}
+
+/**
+ * List archives, newest day first, with the number of re-imported entries
+ */
+export async function listArchives(entity?: string): Promise<AuditArchiveSummary[]> {
+  const manifests = await listAuditArchiveManifests(config.auditArchive.directory);
+  const restored = await auditRepo.countRestoredAudits();
+
+  return manifests
+    .filter((manifest) => !entity || manifest.entity === entity)
+    .sort((a, b) => b.date.localeCompare(a.date) || a.id.localeCompare(b.id))
+    .map((manifest) => ({ ...manifest, restored: restored.get(manifest.id) ?? 0 }));
+}
+
+/**
+ * Get an archive's manifest or throw 404
+ */
+async function getArchiveManifest(archiveId: string): Promise<AuditArchiveManifest> {
+  const manifest = await readAuditArchiveManifest(config.auditArchive.directory, archiveId);
+  if (!manifest) {
+    throw new AppError('NOT_FOUND', `Audit archive ${archiveId} not found`, 404);
+  }
+  return manifest;
+}
+
+/**
+ * Convert an archived entry back to a row. Archives written before diffs
+ * were stored as JSON hold the diff and changed fields as text; that text
+ * becomes the legacy columns (covered by the hash) and is parsed for the
+ * JSON ones.
+ */
+function toAuditRow(entry: Record<string, unknown>): ArchivedAuditRow {
+  const textDiff = !('legacyDiff' in entry);
+  const legacyDiff = textDiff ? (entry.diff as string | null) ?? null : (entry.legacyDiff as string | null) ?? null;
+  const legacyFieldsChanged = textDiff
+    ? (entry.fieldsChanged as string | null) ?? null
+    : (entry.legacyFieldsChanged as string | null) ?? null;
+
+  return {
+    id: entry.id as string,
+    timestamp: new Date(entry.timestamp as string),
+    entity: entry.entity as string,
+    entityId: entry.entityId as string,
+    action: entry.action as string,
+    actorId: entry.actorId as string,
+    requestId: (entry.requestId as string | null) ?? null,
+    diff: textDiff ? (legacyDiff ? JSON.parse(legacyDiff) : null) : entry.diff ?? null,
+    fieldsChanged: textDiff
+      ? legacyFieldsChanged?.split(',') ?? []
+      : (entry.fieldsChanged as string[] | undefined) ?? [],
+    legacyDiff,
+    legacyFieldsChanged,
+    erasedBy: (entry.erasedBy as string | null) ?? null,
+    erasedDataHash: (entry.erasedDataHash as string | null) ?? null,
+    revertedToAuditId: (entry.revertedToAuditId as string | null) ?? null,
+    ip: (entry.ip as string | null) ?? null,
+    userAgent: (entry.userAgent as string | null) ?? null,
+    method: (entry.method as string | null) ?? null,
+    route: (entry.route as string | null) ?? null,
+    authMethod: (entry.authMethod as string | null) ?? null,
+    sequence: entry.sequence as number,
+    prevHash: (entry.prevHash as string | null) ?? null,
+    hash: (entry.hash as string | null) ?? null,
+  };
+}
+
+/**
+ * IDs of the users an archived entry concerns: its actor, the account it is
+ * on and any user ID its diff mentions (e.g. a book's createdBy)
+ */
+function userIdsOf(row: ArchivedAuditRow): string[] {
+  const text = `${JSON.stringify(row.diff)} ${row.legacyDiff ?? ''}`;
+  const mentioned = text.match(UUID_PATTERN) ?? [];
+  return [row.actorId, ...(row.entity === 'User' ? [row.entityId] : []), ...mentioned];
+}
+
+/**
+ * Re-import an archive's entries into the audit table for an investigation.
+ * The file must match its manifest checksum and every entry its chain hash
+ * (entries scrubbed by an erasure: the erased hash the 'erase' entry
+ * recorded for them). Entries archived before a user was erased still hold
+ * their personal data; they are withheld (their chain links stay).
+ * Re-imported entries are skipped by the sweeper until released.
+ */
+export async function importArchive(archiveId: string): Promise<AuditArchiveImportResult> {
+  const manifest = await getArchiveManifest(archiveId);
+  const { checksumValid, entries } = await readAuditArchive(config.auditArchive.directory, manifest);
+
+  if (!checksumValid) {
+    throw new AppError(
+      'ARCHIVE_CHECKSUM_MISMATCH',
+      `Audit archive ${archiveId} does not match its manifest checksum`,
+      422
+    );
+  }
+
+  const rows = entries.map(toAuditRow);
+  const erasures = await auditRepo.findErasedHashes([
+    ...new Set(rows.map((row) => row.erasedBy).filter((id): id is string => !!id)),
+  ]);
+
+  for (const row of rows) {
+    const valid = row.erasedBy
+      ? !!row.erasedDataHash &&
+        erasures.get(row.erasedBy)?.get(row.id) === computeErasedAuditHash(row, row.erasedDataHash)
+      : computeAuditHash(row) === row.hash;
+    if (!row.hash || !valid) {
+      throw new AppError(
+        'ARCHIVE_CORRUPT',
+        `Audit entry ${row.id} in archive ${archiveId} does not match its chain hash`,
+        422
+      );
+    }
+  }
+
+  const erasedUsers = await userRepo.findErasedUserIds([...new Set(rows.flatMap(userIdsOf))]);
+  const importable = rows.filter(
+    (row) => row.erasedBy || !userIdsOf(row).some((id) => erasedUsers.has(id))
+  );
+  const withheld = rows.length - importable.length;
+
+  const imported = await runInTransaction(() => auditRepo.insertRestoredAudits(importable, archiveId));
+
+  logger.info('Audit archive imported', { archiveId, entries: rows.length, imported, withheld });
+
+  return { archiveId, entries: rows.length, imported, withheld };
+}
+
+/**
+ * Remove an archive's re-imported entries again (the archive itself is kept)
+ */
+export async function releaseArchive(archiveId: string): Promise<{ archiveId: string; released: number }> {
+  await getArchiveManifest(archiveId);
+
+  const released = await auditRepo.deleteRestoredAudits(archiveId);
+
+  logger.info('Audit archive released', { archiveId, released });
+
+  return { archiveId, released };
+}
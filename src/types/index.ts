@@ -7,8 +7,48 @@ import { Request } from 'express';
 // User roles
 export type UserRole = 'admin' | 'reviewer';
 
+// Privileges granted to roles on top of route access (privileges.config.ts)
+export type Privilege = 'audit:reveal' | 'user:export' | 'user:erase';
+
+// Contributor roles on a book
+export type AuthorRole = 'author' | 'editor' | 'translator' | 'illustrator';
+
+// Editorial lifecycle states of a book
+export type BookStatus =
+  | 'draft'
+  | 'in_review'
+  | 'approved'
+  | 'scheduled'
+  | 'published'
+  | 'out_of_print';
+
+// Editorial workflow transitions (each is its own endpoint and audit action)
+export type WorkflowTransition =
+  | 'submit'
+  | 'reject'
+  | 'approve'
+  | 'schedule'
+  | 'unschedule'
+  | 'publish'
+  | 'retire'
+  | 'reissue';
+
+// Security events (failed authentication and authorization)
+export type SecurityAction = 'login_failed' | 'access_denied' | 'token_invalid';
+
 // Audit actions
-export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'login';
+export type AuditAction =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'restore'
+  | 'login'
+  | 'read'
+  | 'reveal'
+  | 'data_export'
+  | 'erase'
+  | WorkflowTransition
+  | SecurityAction;
 
 // User interface
 export interface User {
@@ -20,17 +60,99 @@ export interface User {
   createdAt: Date;
 }
 
+// Author interface
+export interface Author {
+  id: string;
+  name: string;
+  bio?: string | null;
+  isDeleted: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Publisher interface
+export interface Publisher {
+  id: string;
+  name: string;
+  imprints: string[];
+  contactName?: string | null;
+  contactEmail?: string | null;
+  contactPhone?: string | null;
+  address?: string | null;
+  website?: string | null;
+  taxId?: string | null;
+  isDeleted: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Book-author link (ordered, with role)
+export interface BookContributor {
+  authorId: string;
+  role: AuthorRole;
+  position: number;
+  author?: Pick<Author, 'id' | 'name'>;
+}
+
 // Book interface
 export interface Book {
   id: string;
   title: string;
   authors: string;
   publishedBy: string;
+  publisherId?: string | null;
+  isbn10?: string | null;
+  isbn13?: string | null;
+  status: BookStatus;
+  scheduledAt?: Date | null;
+  publishedAt?: Date | null;
+  version: number;
   createdById: string;
   updatedById?: string;
   isDeleted: boolean;
   createdAt: Date;
   updatedAt: Date;
+  contributors?: BookContributor[];
+  publisher?: Pick<Publisher, 'id' | 'name'> | null;
+}
+
+// Book comment interface (replies are nested when listed as threads)
+export interface BookComment {
+  id: string;
+  bookId: string;
+  parentId?: string | null;
+  body: string | null;
+  field?: string | null;
+  isResolved: boolean;
+  resolvedAt?: Date | null;
+  resolvedById?: string | null;
+  isDeleted: boolean;
+  createdById: string;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy?: Pick<User, 'id' | 'name'>;
+  replies?: BookComment[];
+}
+
+// One path-level change of an audit diff (JSON Patch-like). Removals index
+// the before array, every other change the after array.
+export interface AuditDiffChange {
+  op: 'add' | 'remove' | 'replace' | 'move';
+  path: string;
+  // move: previous position of the element
+  from?: string;
+  // remove, replace: previous value
+  oldValue?: unknown;
+  // add, replace, move: new value
+  value?: unknown;
+}
+
+// Recorded before/after snapshots and their changes (`changes` is missing
+// on entries written before path-level diffs)
+export interface AuditDiff {
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+  changes?: AuditDiffChange[];
 }
 
 // Audit log interface
@@ -42,8 +164,73 @@ export interface AuditLog {
   action: AuditAction;
   actorId: string;
   requestId?: string;
-  diff?: string;
-  fieldsChanged?: string;
+  diff?: AuditDiff | null;
+  // Changed (leaf) paths
+  fieldsChanged: string[];
+  // Top-level fields of fieldsChanged (e.g. `authors` for `authors.0.name`)
+  changedFields?: string[];
+  revertedToAuditId?: string | null;
+  // Entries written before diffs were stored as JSON keep their original
+  // text, which their hash covers
+  legacyDiff?: string | null;
+  legacyFieldsChanged?: string | null;
+  // Set on entries whose diff an erasure scrubbed: the 'erase' entry listing
+  // them, and the hash of the original diff and request details
+  erasedBy?: string | null;
+  erasedDataHash?: string | null;
+  // Hash chain (see utils/audit-chain.ts)
+  sequence: number;
+  prevHash?: string | null;
+  hash?: string | null;
+  // Set on entries re-imported from an archive
+  restoredFromArchive?: string | null;
+  // Request details (null when not captured)
+  ip?: string | null;
+  userAgent?: string | null;
+  method?: string | null;
+  route?: string | null;
+  authMethod?: string | null;
+}
+
+// Who viewed a record of a read-tracked entity (not part of the hash chain)
+export interface AuditRead {
+  id: string;
+  timestamp: Date;
+  entity: string;
+  entityId: string;
+  actorId: string;
+  requestId?: string | null;
+  actor?: Pick<User, 'id' | 'name' | 'email'>;
+  // Request details (null when not captured)
+  ip?: string | null;
+  userAgent?: string | null;
+  method?: string | null;
+  route?: string | null;
+  authMethod?: string | null;
+}
+
+// Entity state rebuilt from the audit trail.
+// Excluded and redacted fields are not recorded, so they are listed as unknown.
+export interface EntitySnapshot {
+  entity: string;
+  entityId: string;
+  asOf: Date;
+  auditId: string;
+  state: Record<string, unknown>;
+  unknownFields: string[];
+}
+
+// One version in an entity's history: the audit entry and the state after it
+export interface EntityVersion {
+  auditId: string;
+  action: AuditAction;
+  timestamp: Date;
+  actorId: string;
+  actor?: Pick<User, 'id' | 'name' | 'email'>;
+  requestId?: string | null;
+  fieldsChanged: string[];
+  revertedToAuditId?: string | null;
+  state: Record<string, unknown>;
 }
 
 // Extended Express Request with user context
@@ -74,20 +261,362 @@ export interface AuditFilterParams {
   actorId?: string;
   action?: string;
   fieldsChanged?: string;
+  // Entries where this field (or dotted path) changed from / to a value
+  changedField?: string;
+  changedFrom?: string;
+  changedTo?: string;
   requestId?: string;
+  ip?: string;
+  userAgent?: string;
+  method?: string;
+  route?: string;
+  authMethod?: string;
   limit?: string;
   cursor?: string;
 }
 
+// Read audit filter params
+export interface AuditReadFilterParams {
+  from?: string;
+  to?: string;
+  entity?: string;
+  entityId?: string;
+  actorId?: string;
+  limit?: string;
+  cursor?: string;
+}
+
+// Sortable book fields (prefix with '-' for descending order)
+export type BookSortField = 'title' | 'authors' | 'publishedBy' | 'createdAt' | 'updatedAt';
+
+// Book list filter params
+export interface BookFilterParams {
+  q?: string;
+  createdById?: string;
+  updatedById?: string;
+  createdFrom?: string;
+  createdTo?: string;
+  updatedFrom?: string;
+  updatedTo?: string;
+  authorId?: string;
+  publisherId?: string;
+  status?: BookStatus;
+  sort?: string;
+}
+
+// Author credit on book create/update: an existing author by id, or a name to find or create
+export interface AuthorCreditInput {
+  authorId?: string;
+  name?: string;
+  role?: AuthorRole;
+}
+
+// Resolved author credit, in byline order
+export interface AuthorCredit {
+  authorId: string;
+  name: string;
+  role: AuthorRole;
+}
+
 // Book create/update DTOs
+// `authors` accepts a legacy comma-separated string or a list of credits.
+// The publisher is given by `publisherId`, or by name via `publishedBy`.
 export interface CreateBookDto {
   title: string;
-  authors: string;
-  publishedBy: string;
+  authors: string | AuthorCreditInput[];
+  publishedBy?: string;
+  publisherId?: string;
+  isbn10?: string;
+  isbn13?: string;
 }
 
 export interface UpdateBookDto {
   title?: string;
-  authors?: string;
+  authors?: string | AuthorCreditInput[];
   publishedBy?: string;
+  publisherId?: string;
+  isbn10?: string | null;
+  isbn13?: string | null;
+}
+
+// Book comment list filter params
+export interface CommentFilterParams {
+  resolved?: boolean;
+  field?: string;
+}
+
+// Book comment create/update DTOs
+export interface CreateCommentDto {
+  body: string;
+  parentId?: string;
+  field?: string;
+}
+
+export interface UpdateCommentDto {
+  body?: string;
+  field?: string | null;
+}
+
+// Bulk book import
+export type ImportFormat = 'csv' | 'jsonl';
+
+export interface ImportRowReport {
+  row: number;
+  status: 'valid' | 'invalid' | 'created';
+  bookId?: string;
+  errors: { field: string; message: string }[];
+  warnings: string[];
+}
+
+export interface ImportReport {
+  format: ImportFormat;
+  dryRun: boolean;
+  requestId?: string;
+  total: number;
+  valid: number;
+  invalid: number;
+  created: number;
+  warnings: string[];
+  rows: ImportRowReport[];
+}
+
+// Book revert: which audit snapshot to restore, optionally limited to some fields
+export type RevertSnapshot = 'before' | 'after';
+
+export interface RevertBookDto {
+  auditId: string;
+  snapshot: RevertSnapshot;
+  fields?: string[];
+}
+
+export interface RevertBookResult {
+  book: Book;
+  auditId: string;
+  snapshot: RevertSnapshot;
+  reverted: string[];
+  skipped: { field: string; reason: string }[];
+}
+
+// Change set rollback: how each audit entry of a request is undone
+export type RollbackOperation = 'soft-delete' | 'restore' | 'update' | 'skip';
+
+export interface RollbackStep {
+  auditId: string;
+  entity: string;
+  entityId: string;
+  action: AuditAction;
+  operation: RollbackOperation;
+  // For updates: field values before rollback (`from`) and after (`to`)
+  changes?: Record<string, { from: unknown; to: unknown }>;
+  reason?: string;
+}
+
+export interface ChangesetRollbackResult {
+  requestId: string;
+  preview: boolean;
+  steps: RollbackStep[];
+  // Later changes (from other requests) to entities of the change set
+  conflicts: Pick<AuditLog, 'id' | 'entity' | 'entityId' | 'action' | 'requestId' | 'timestamp'>[];
+  // Entries that cannot be undone (unknown entity, redacted or unsupported fields)
+  irreversible: { auditId: string; message: string }[];
+}
+
+// Audit statistics: bucket dimension and result
+export type AuditStatsGroupBy = 'action' | 'entity' | 'actorId' | 'field' | 'hour' | 'day' | 'week';
+
+export interface AuditStatsBucket {
+  // Group value; for hour/day/week the ISO start of the bucket (UTC)
+  key: string;
+  count: number;
+  // With groupBy=actorId
+  actor?: Pick<User, 'name' | 'email'> | null;
+}
+
+export interface AuditStats {
+  groupBy: AuditStatsGroupBy;
+  // Matching audit entries (with groupBy=field, bucket counts overlap: an entry counts once per changed field)
+  total: number;
+  buckets: AuditStatsBucket[];
+}
+
+// Audit chain verification
+// Link of an entry in the hash chain (kept for entries removed by the retention sweeper)
+export interface AuditChainLink {
+  sequence: number;
+  auditId: string;
+  timestamp: Date;
+  entity: string;
+  prevHash: string | null;
+  hash: string | null;
+  archiveId?: string | null;
+}
+
+export type AuditChainBreakReason = 'missing_hash' | 'prev_hash_mismatch' | 'hash_mismatch' | 'erasure_mismatch';
+
+export interface AuditChainBreak {
+  auditId: string;
+  sequence: number;
+  timestamp: Date;
+  reason: AuditChainBreakReason;
+  expected: string | null;
+  actual: string | null;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  from?: string;
+  to?: string;
+  // Entries checked, in chain order
+  checked: number;
+  // Of those, entries removed by the retention sweeper (only their links are checked)
+  archived: number;
+  // Of those, entries scrubbed by an erasure (checked against the hash their erasure recorded)
+  erased: number;
+  firstSequence: number | null;
+  lastSequence: number | null;
+  lastHash: string | null;
+  // First broken link; verification stops there
+  brokenLink: AuditChainBreak | null;
+}
+
+// Audit archive (one compressed JSON Lines file per entity and day, per sweep)
+export interface AuditArchiveManifest {
+  id: string;
+  entity: string;
+  // UTC day of the archived entries (YYYY-MM-DD)
+  date: string;
+  file: string;
+  format: 'jsonl+gzip';
+  entries: number;
+  firstSequence: number;
+  lastSequence: number;
+  firstTimestamp: string;
+  lastTimestamp: string;
+  // SHA-256 of the compressed file
+  sha256: string;
+  createdAt: string;
+}
+
+export interface AuditArchiveSummary extends AuditArchiveManifest {
+  // Entries currently re-imported into the audit table
+  restored: number;
+}
+
+export interface AuditSweepResult {
+  entity: string;
+  cutoff: Date;
+  removed: number;
+  archives: string[];
+}
+
+export interface AuditArchiveImportResult {
+  archiveId: string;
+  entries: number;
+  imported: number;
+  // Entries not imported: archived before a user they concern was erased
+  withheld: number;
+}
+
+export type CheckpointMismatchReason = 'signature_invalid' | 'entry_missing' | 'hash_mismatch';
+
+export interface CheckpointVerification {
+  valid: boolean;
+  reason?: CheckpointMismatchReason;
+  // Chain from its start up to the checkpointed entry
+  chain?: AuditChainVerification;
+}
+
+// Decrypted values of an audit entry's encrypted fields
+export interface AuditReveal {
+  auditId: string;
+  entity: string;
+  entityId: string;
+  fields: string[];
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+  // Audit entry recording the reveal
+  revealAuditId: string;
+}
+
+// Data subject requests (access export and erasure of a user's personal data)
+export interface DataSubject {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+  createdAt: Date;
+  updatedAt: Date;
+  erasedAt: Date | null;
+}
+
+export interface DataSubjectExport {
+  exportedAt: string;
+  user: DataSubject;
+  // Books the user created or last updated (deleted ones included)
+  books: Book[];
+  // Entries the user made or that concern their account, in chain order
+  audits: Omit<AuditLog, 'legacyDiff' | 'legacyFieldsChanged'>[];
+  // Records the user viewed, oldest first
+  reads: AuditRead[];
+}
+
+export interface DataSubjectErasure {
+  userId: string;
+  // Name and email the user row now carries
+  pseudonym: { name: string; email: string };
+  erasedAt: Date;
+  // Audit entries whose diff held the user's personal data
+  scrubbedAudits: number;
+  // Audit entry recording the erasure
+  eraseAuditId: string;
+}
+
+// Catalog export
+export type ExportFormat = 'csv' | 'jsonl' | 'onix';
+
+// Audit trail export
+export type AuditExportFormat = Extract<ExportFormat, 'csv' | 'jsonl'>;
+
+// Author list filter params
+export interface AuthorFilterParams {
+  q?: string;
+}
+
+// Author create/update DTOs
+export interface CreateAuthorDto {
+  name: string;
+  bio?: string;
+}
+
+export interface UpdateAuthorDto {
+  name?: string;
+  bio?: string | null;
+}
+
+// Publisher list filter params
+export interface PublisherFilterParams {
+  q?: string;
+}
+
+// Publisher create/update DTOs
+export interface CreatePublisherDto {
+  name: string;
+  imprints?: string[];
+  contactName?: string;
+  contactEmail?: string;
+  contactPhone?: string;
+  address?: string;
+  website?: string;
+  taxId?: string;
+}
+
+export interface UpdatePublisherDto {
+  name?: string;
+  imprints?: string[];
+  contactName?: string | null;
+  contactEmail?: string | null;
+  contactPhone?: string | null;
+  address?: string | null;
+  website?: string | null;
+  taxId?: string | null;
 }
@@ -7,10 +7,22 @@ import { AsyncLocalStorage } from 'async_hooks';
  * the entire request lifecycle without passing them explicitly.
  */
 
+// How the request authenticated
+export type AuthMethod = 'jwt' | 'api_key';
+
 export interface RequestContext {
   requestId: string;
   userId?: string;
   startTime: number;
+  // Client and request details, recorded on audit entries
+  ip?: string;
+  userAgent?: string;
+  method?: string;
+  // Route pattern (e.g. /api/books/:id) once matched, the request path before that
+  route?: string;
+  // Mount patterns of the routers the request is in (e.g. ['/api', '/books', '/:id/comments'])
+  mounts?: string[];
+  authMethod?: AuthMethod;
 }
 
 // Create the AsyncLocalStorage instance
@@ -47,6 +59,53 @@ export function setUserId(userId: string): void {
   }
 }
 
+/**
+ * Set the authentication method in the current context
+ */
+export function setAuthMethod(authMethod: AuthMethod): void {
+  const context = getRequestContext();
+  if (context) {
+    context.authMethod = authMethod;
+  }
+}
+
+/**
+ * Set the matched route pattern in the current context
+ */
+export function setRoute(route: string): void {
+  const context = getRequestContext();
+  if (context) {
+    context.route = route;
+  }
+}
+
+/**
+ * Enter a router mounted at a pattern (see mountRoutes)
+ */
+export function enterMount(pattern: string): void {
+  const context = getRequestContext();
+  if (context) {
+    context.mounts = [...(context.mounts ?? []), pattern];
+  }
+}
+
+/**
+ * Leave the innermost router again (none of its routes matched)
+ */
+export function leaveMount(): void {
+  const context = getRequestContext();
+  if (context) {
+    context.mounts = context.mounts?.slice(0, -1);
+  }
+}
+
+/**
+ * Mount patterns of the current router, joined (e.g. /api/books/:id/comments)
+ */
+export function getMountPath(): string {
+  return getRequestContext()?.mounts?.join('') ?? '';
+}
+
 /**
  * Get request duration in milliseconds
  */
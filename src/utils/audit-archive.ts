@@ -0,0 +1,172 @@
+import { createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { gunzipSync, gzipSync } from 'zlib';
+import { AuditArchiveManifest, AuditLog } from '../types';
+
+/**
+ * Audit Archive Utility
+ *
+ * Archives are gzip-compressed JSON Lines files (one audit entry per line),
+ * partitioned by the UTC day of their entries:
+ *   <root>/<YYYY>/<MM>/<DD>/<id>.jsonl.gz
+ *   <root>/<YYYY>/<MM>/<DD>/<id>.manifest.json
+ * The manifest records the entry range and the SHA-256 of the compressed file.
+ */
+
+const ARCHIVE_ID_PATTERN = /^([A-Za-z0-9]+)-(\d{4})-(\d{2})-(\d{2})-[0-9a-f]+$/;
+
+/**
+ * UTC day of a timestamp (YYYY-MM-DD)
+ */
+export function archiveDate(timestamp: Date): string {
+  return timestamp.toISOString().slice(0, 10);
+}
+
+/**
+ * New archive ID for an entity and day, e.g. Book-2025-01-11-3fa94c1e
+ */
+export function createArchiveId(entity: string, date: string): string {
+  return `${entity}-${date}-${randomBytes(4).toString('hex')}`;
+}
+
+/**
+ * Whether a string is a well-formed archive ID (safe to use in paths)
+ */
+export function isArchiveId(id: string): boolean {
+  return ARCHIVE_ID_PATTERN.test(id);
+}
+
+/**
+ * Directory and file paths of an archive
+ */
+function archivePaths(root: string, id: string): { dir: string; data: string; manifest: string } {
+  const match = ARCHIVE_ID_PATTERN.exec(id);
+  if (!match) {
+    throw new Error(`Invalid archive ID: ${id}`);
+  }
+  const [, , year, month, day] = match;
+  const dir = path.join(root, year, month, day);
+  return {
+    dir,
+    data: path.join(dir, `${id}.jsonl.gz`),
+    manifest: path.join(dir, `${id}.manifest.json`),
+  };
+}
+
+/**
+ * SHA-256 of a buffer (hex)
+ */
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Write audit entries of one entity and day to a new archive.
+ * Entries must be in chain (sequence) order.
+ */
+export async function writeAuditArchive(
+  root: string,
+  id: string,
+  entity: string,
+  entries: AuditLog[]
+): Promise<AuditArchiveManifest> {
+  const paths = archivePaths(root, id);
+  const data = gzipSync(entries.map((entry) => JSON.stringify(entry)).join('\n') + '\n');
+  const first = entries[0];
+  const last = entries[entries.length - 1];
+
+  const manifest: AuditArchiveManifest = {
+    id,
+    entity,
+    date: archiveDate(first.timestamp),
+    file: path.basename(paths.data),
+    format: 'jsonl+gzip',
+    entries: entries.length,
+    firstSequence: first.sequence,
+    lastSequence: last.sequence,
+    firstTimestamp: first.timestamp.toISOString(),
+    lastTimestamp: last.timestamp.toISOString(),
+    sha256: sha256(data),
+    createdAt: new Date().toISOString(),
+  };
+
+  await fs.mkdir(paths.dir, { recursive: true });
+  await fs.writeFile(paths.data, data);
+  // The manifest is written last: an archive without one is incomplete
+  await fs.writeFile(paths.manifest, JSON.stringify(manifest, null, 2) + '\n');
+
+  return manifest;
+}
+
+/**
+ * Remove an archive's files (used when its entries could not be removed from the table)
+ */
+export async function removeAuditArchive(root: string, id: string): Promise<void> {
+  const paths = archivePaths(root, id);
+  await fs.rm(paths.manifest, { force: true });
+  await fs.rm(paths.data, { force: true });
+}
+
+/**
+ * Read an archive's manifest, or null when there is no such archive
+ */
+export async function readAuditArchiveManifest(root: string, id: string): Promise<AuditArchiveManifest | null> {
+  try {
+    const text = await fs.readFile(archivePaths(root, id).manifest, 'utf8');
+    return JSON.parse(text) as AuditArchiveManifest;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Read an archive's entries. Returns checksumValid: false (and no entries)
+ * when the file does not match the manifest checksum.
+ */
+export async function readAuditArchive(
+  root: string,
+  manifest: AuditArchiveManifest
+): Promise<{ checksumValid: boolean; entries: Record<string, unknown>[] }> {
+  const data = await fs.readFile(archivePaths(root, manifest.id).data);
+  if (sha256(data) !== manifest.sha256) {
+    return { checksumValid: false, entries: [] };
+  }
+
+  const entries = gunzipSync(data)
+    .toString('utf8')
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as Record<string, unknown>);
+
+  return { checksumValid: true, entries };
+}
+
+/**
+ * List the manifests of all archives under the root directory
+ */
+export async function listAuditArchiveManifests(root: string): Promise<AuditArchiveManifest[]> {
+  const manifests: AuditArchiveManifest[] = [];
+
+  const walk = async (dir: string): Promise<void> => {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(fullPath);
+      } else if (entry.name.endsWith('.manifest.json')) {
+        manifests.push(JSON.parse(await fs.readFile(fullPath, 'utf8')) as AuditArchiveManifest);
+      }
+    }
+  };
+
+  await walk(root);
+  return manifests;
+}
@@ -0,0 +1,157 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Audit Chain Utility
+ *
+ * Every audit entry stores the SHA-256 hash of its canonicalized contents
+ * together with the hash of the entry before it (prevHash). Editing, deleting
+ * or reordering an entry breaks the link to every entry after it.
+ * Checkpoints sign the head of the chain with HMAC-SHA256 so it can be kept
+ * off-box and compared later. An entry whose diff (or request details) a
+ * user erasure scrubbed no longer matches its hash; it is verified by its
+ * erased hash instead (see computeErasedAuditHash).
+ */
+
+export const CHECKPOINT_ALGORITHM = 'HMAC-SHA256';
+
+// Contents of an audit entry covered by its hash
+export interface ChainedAuditFields {
+  id: string;
+  timestamp: Date;
+  entity: string;
+  entityId: string;
+  action: string;
+  actorId: string;
+  requestId?: string | null;
+  diff?: unknown;
+  fieldsChanged?: string[] | null;
+  legacyDiff?: string | null;
+  legacyFieldsChanged?: string | null;
+  revertedToAuditId?: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+  method?: string | null;
+  route?: string | null;
+  authMethod?: string | null;
+  prevHash?: string | null;
+}
+
+export interface CheckpointPayload {
+  version: 1;
+  // Chain head at the time of the checkpoint
+  sequence: number;
+  auditId: string;
+  hash: string;
+  timestamp: string;
+  createdAt: string;
+}
+
+export interface SignedCheckpoint extends CheckpointPayload {
+  algorithm: typeof CHECKPOINT_ALGORITHM;
+  signature: string;
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted, so equal contents
+ * always produce the same string
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonicalize).join(',')}]`;
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Hex SHA-256 of a string
+ */
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Chained fields of an audit entry, as hashed
+ */
+function chainedFields(entry: ChainedAuditFields): Record<string, unknown> {
+  return {
+    id: entry.id,
+    timestamp: entry.timestamp,
+    entity: entry.entity,
+    entityId: entry.entityId,
+    action: entry.action,
+    actorId: entry.actorId,
+    requestId: entry.requestId ?? null,
+    // Entries written before diffs were stored as JSON: the original text
+    diff: entry.legacyDiff ?? entry.diff ?? null,
+    fieldsChanged: entry.legacyFieldsChanged ?? (entry.fieldsChanged?.length ? entry.fieldsChanged : null),
+    revertedToAuditId: entry.revertedToAuditId ?? null,
+    ip: entry.ip ?? undefined,
+    userAgent: entry.userAgent ?? undefined,
+    method: entry.method ?? undefined,
+    route: entry.route ?? undefined,
+    authMethod: entry.authMethod ?? undefined,
+    prevHash: entry.prevHash ?? null,
+  };
+}
+
+/**
+ * Hash of an audit entry (hex SHA-256 of its canonicalized chained fields).
+ * Request details are only included when recorded, so entries written
+ * before they were captured keep their hash. The JSON diff is canonicalized
+ * too, so its hash doesn't depend on how the database orders its keys.
+ */
+export function computeAuditHash(entry: ChainedAuditFields): string {
+  return sha256(canonicalize(chainedFields(entry)));
+}
+
+// Chained fields a user erasure may rewrite (they can hold personal data)
+const ERASABLE_FIELDS = ['diff', 'ip', 'userAgent'] as const;
+
+/**
+ * Hash of an audit entry's erasable fields (the diff, or its legacy text,
+ * and the client IP and user agent), as its hash covers them
+ */
+export function computeErasedDataHash(entry: ChainedAuditFields): string {
+  const fields = chainedFields(entry);
+  return sha256(canonicalize(Object.fromEntries(ERASABLE_FIELDS.map((field) => [field, fields[field]]))));
+}
+
+/**
+ * Hash of an audit entry with its erasable fields replaced by their hash
+ * before the erasure (computeErasedDataHash). An erasure records it for
+ * every entry it scrubs, so their other fields stay verifiable once those
+ * are rewritten.
+ */
+export function computeErasedAuditHash(entry: ChainedAuditFields, erasedDataHash: string): string {
+  const fields = chainedFields(entry);
+  for (const field of ERASABLE_FIELDS) {
+    delete fields[field];
+  }
+  return sha256(canonicalize({ ...fields, erasedDataHash }));
+}
+
+/**
+ * Sign a checkpoint payload
+ */
+export function signCheckpoint(payload: CheckpointPayload, secret: string): SignedCheckpoint {
+  const signature = createHmac('sha256', secret).update(canonicalize(payload)).digest('hex');
+  return { ...payload, algorithm: CHECKPOINT_ALGORITHM, signature };
+}
+
+/**
+ * Check a checkpoint's signature (constant-time comparison)
+ */
+export function isCheckpointSignatureValid(checkpoint: SignedCheckpoint, secret: string): boolean {
+  const { algorithm, signature, ...payload } = checkpoint;
+  if (algorithm !== CHECKPOINT_ALGORITHM) return false;
+
+  const expected = signCheckpoint(payload, secret).signature;
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length / 2 && timingSafeEqual(actual, Buffer.from(expected, 'hex'));
+}
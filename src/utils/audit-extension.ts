@@ -0,0 +1,197 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Prisma } from '@prisma/client';
+import { AuditAction } from '../types';
+import { isAuditable } from '../config/audit.config';
+import { createAuditLog } from '../repositories/audit.repository';
+import { getUserId } from './async-context';
+import { getTransaction, runInTransaction } from './transaction';
+
+/**
+ * Audit Client Extension
+ *
+ * Intercepts create, update, upsert, delete and their *Many variants on every
+ * model in auditConfig, reads before/after snapshots and writes the audit
+ * entries in the same transaction as the mutation. Repositories don't record
+ * audits themselves: adding an entity to audit.config.ts is the only change needed.
+ *
+ * Updates that flip `isDeleted` are recorded as 'delete' / 'restore' (soft delete).
+ * Like the rest of the audit trail, nothing is recorded without a user in the
+ * request context (e.g. seeding).
+ */
+
+export interface AuditOptions {
+  // Record this action instead of the derived one (e.g. a workflow transition)
+  action?: AuditAction;
+  // Audit entry whose snapshot the change restored (reverts)
+  revertedToAuditId?: string;
+  // Record nothing: the caller writes its own entry (an erasure must not
+  // copy the personal data it removes into the trail)
+  skip?: boolean;
+}
+
+const auditOptionsStorage = new AsyncLocalStorage<AuditOptions>();
+
+/**
+ * Run writes with extra audit options (action override, revert link, skip).
+ * Prisma queries are lazy, so fn's result is awaited inside the scope.
+ */
+export function withAuditOptions<T>(options: AuditOptions, fn: () => Promise<T>): Promise<T> {
+  return auditOptionsStorage.run(options, async () => await fn());
+}
+
+type Row = Record<string, unknown>;
+
+// Arguments of an intercepted operation (only `where` is read)
+type OperationArgs = object & { where?: unknown };
+
+interface ModelDelegate {
+  findUnique(args: OperationArgs): Promise<Row | null>;
+  findMany(args: OperationArgs): Promise<Row[]>;
+  createManyAndReturn(args: OperationArgs): Promise<Row[]>;
+  [operation: string]: (args: OperationArgs) => Promise<unknown>;
+}
+
+/**
+ * Model delegate (e.g. tx.book for 'Book') on the active transaction
+ */
+function getDelegate(model: string): ModelDelegate {
+  const client = getTransaction() as unknown as Record<string, ModelDelegate>;
+  return client[model.charAt(0).toLowerCase() + model.slice(1)];
+}
+
+/**
+ * Derive the audit action of an update from the soft delete flag
+ */
+function updateAction(before: Row | null, after: Row): AuditAction {
+  const override = auditOptionsStorage.getStore()?.action;
+  if (override) return override;
+
+  if (before?.isDeleted === false && after.isDeleted === true) return 'delete';
+  if (before?.isDeleted === true && after.isDeleted === false) return 'restore';
+  return 'update';
+}
+
+/**
+ * Write one audit entry for a row
+ */
+async function recordAudit(
+  entity: string,
+  action: AuditAction,
+  before: Row | null,
+  after: Row | null
+): Promise<void> {
+  const row = after ?? before;
+  if (!row) return;
+
+  await createAuditLog({
+    entity,
+    entityId: String(row.id),
+    action,
+    actorId: getUserId()!,
+    before,
+    after,
+    revertedToAuditId: auditOptionsStorage.getStore()?.revertedToAuditId,
+  });
+}
+
+/**
+ * Run an audited operation: snapshot, mutate, record
+ */
+async function runAudited(
+  model: string,
+  operation: string,
+  args: OperationArgs,
+  query: (args: OperationArgs) => Promise<unknown>
+): Promise<unknown> {
+  if (!isAuditable(model) || !getUserId() || auditOptionsStorage.getStore()?.skip) {
+    return query(args);
+  }
+
+  // Outside a transaction, re-issue the operation on a transaction client so
+  // the mutation and its audit entries commit (or fail) together
+  if (!getTransaction()) {
+    return runInTransaction(async () => await getDelegate(model)[operation](args));
+  }
+
+  const delegate = getDelegate(model);
+
+  switch (operation) {
+    // Model operations resolve to the written row(s)
+    case 'create': {
+      const result = (await query(args)) as Row;
+      await recordAudit(model, 'create', null, result);
+      return result;
+    }
+
+    // createMany only returns a count; create through createManyAndReturn to get the rows
+    case 'createMany': {
+      const rows: Row[] = await delegate.createManyAndReturn(args);
+      return { count: rows.length };
+    }
+
+    case 'createManyAndReturn': {
+      const rows = (await query(args)) as Row[];
+      for (const row of rows) {
+        await recordAudit(model, 'create', null, row);
+      }
+      return rows;
+    }
+
+    case 'update':
+    case 'upsert': {
+      const before = await delegate.findUnique({ where: args.where });
+      const result = (await query(args)) as Row;
+      await recordAudit(model, before ? updateAction(before, result) : 'create', before, result);
+      return result;
+    }
+
+    case 'delete': {
+      const before = await delegate.findUnique({ where: args.where });
+      const result = (await query(args)) as Row;
+      await recordAudit(model, 'delete', before ?? result, null);
+      return result;
+    }
+
+    case 'updateMany': {
+      const befores = await delegate.findMany({ where: args.where });
+      const result = await query(args);
+      const afters = await delegate.findMany({ where: { id: { in: befores.map((row) => row.id) } } });
+      const aftersById = new Map(afters.map((row) => [row.id, row]));
+      for (const before of befores) {
+        const after = aftersById.get(before.id);
+        if (after) {
+          await recordAudit(model, updateAction(before, after), before, after);
+        }
+      }
+      return result;
+    }
+
+    case 'deleteMany': {
+      const befores = await delegate.findMany({ where: args.where });
+      const result = await query(args);
+      for (const before of befores) {
+        await recordAudit(model, 'delete', before, null);
+      }
+      return result;
+    }
+
+    default:
+      return query(args);
+  }
+}
+
+export const auditExtension = Prisma.defineExtension({
+  name: 'audit',
+  query: {
+    $allModels: {
+      create: ({ model, operation, args, query }) => runAudited(model, operation, args, query),
+      createMany: ({ model, operation, args, query }) => runAudited(model, operation, args, query),
+      createManyAndReturn: ({ model, operation, args, query }) => runAudited(model, operation, args, query),
+      update: ({ model, operation, args, query }) => runAudited(model, operation, args, query),
+      updateMany: ({ model, operation, args, query }) => runAudited(model, operation, args, query),
+      upsert: ({ model, operation, args, query }) => runAudited(model, operation, args, query),
+      delete: ({ model, operation, args, query }) => runAudited(model, operation, args, query),
+      deleteMany: ({ model, operation, args, query }) => runAudited(model, operation, args, query),
+    },
+  },
+});
@@ -0,0 +1,51 @@
+import { AuthorCredit, AuthorCreditInput, AuthorRole } from '../types';
+
+/**
+ * Author Byline Utility
+ *
+ * Converts between the legacy comma-separated `Book.authors` string
+ * and ordered author credits.
+ */
+
+/**
+ * Split a legacy authors string into individual names.
+ * Accepts ',', ';' and '&' as separators and drops duplicates (case-insensitive).
+ */
+export function splitAuthorNames(authors: string): string[] {
+  const seen = new Set<string>();
+  const names: string[] = [];
+
+  for (const part of authors.split(/[,;&]/)) {
+    const name = part.trim().replace(/\s+/g, ' ');
+    if (!name || seen.has(name.toLowerCase())) continue;
+    seen.add(name.toLowerCase());
+    names.push(name);
+  }
+
+  return names;
+}
+
+const BYLINE_ROLES: AuthorRole[] = ['author', 'editor', 'translator', 'illustrator'];
+
+/**
+ * Parse a display byline back into credits by name, e.g. "John Roe (translator)"
+ * gives { name: 'John Roe', role: 'translator' }
+ */
+export function parseByline(byline: string): AuthorCreditInput[] {
+  return splitAuthorNames(byline).map((part) => {
+    const match = part.match(/^(.+?)\s*\((\w+)\)$/);
+    if (match && BYLINE_ROLES.includes(match[2] as AuthorRole)) {
+      return { name: match[1], role: match[2] as AuthorRole };
+    }
+    return { name: part, role: 'author' };
+  });
+}
+
+/**
+ * Format credits as a display byline, e.g. "Jane Doe, John Roe (translator)"
+ */
+export function formatByline(credits: Pick<AuthorCredit, 'name' | 'role'>[]): string {
+  return credits
+    .map((credit) => (credit.role === 'author' ? credit.name : `${credit.name} (${credit.role})`))
+    .join(', ');
+}
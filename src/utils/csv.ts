@@ -0,0 +1,75 @@
+/**
+ * CSV Utility
+ *
+ * Minimal RFC 4180 parsing and formatting: comma separated, fields optionally
+ * quoted with '"', quotes escaped by doubling, CRLF or LF line endings.
+ */
+
+/**
+ * Parse CSV text into rows of fields.
+ * Blank lines are skipped; quoted fields may contain commas and newlines.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip UTF-8 BOM written by spreadsheet tools
+  const input = text.charCodeAt(0) === 0xfeff ? text.substring(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Format a single CSV field, quoting when needed
+ */
+export function formatCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const str = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/**
+ * Format a CSV line (with trailing CRLF)
+ */
+export function formatCsvRow(values: unknown[]): string {
+  return values.map(formatCsvField).join(',') + '\r\n';
+}
@@ -1,60 +1,237 @@
-import { getEntityAuditConfig, AuditEntityConfig } from '../config/audit.config';
+import { getEntityAuditConfig, getFieldRedaction, AuditEntityConfig } from '../config/audit.config';
+import { AuditDiffChange } from '../types';
+import { canonicalize } from './audit-chain';
+import { redactValue } from './redaction';
 
 /**
  * Diff Utility for Audit Trail
- * 
+ *
  * Computes differences between before/after states,
  * respecting exclude/redact configuration.
+ *
+ * Nested objects and arrays are compared path by path: the result lists each
+ * change JSON Patch style, with dotted paths (e.g. `metadata.dimensions.height`,
+ * `imprints.2`). Keys are visited in sorted order, so equal states always give
+ * the same change list. Array elements are matched by value: reordered elements
+ * are reported as moves, not as a remove and an add.
+ *
+ * Exclude/redact rules may be dotted paths into nested objects; array indices
+ * are left out of rule paths, so `contributors.email` applies to every element.
  */
 
 export interface DiffResult {
   before: Record<string, unknown>;
   after: Record<string, unknown>;
+  changes: AuditDiffChange[];
+  // Leaf paths of the changes
   fieldsChanged: string[];
 }
 
+// Change with the rule path of its value (array indices left out)
+interface PathChange extends AuditDiffChange {
+  rulePath: string;
+}
+
 /**
- * Process a value according to audit config (exclude or redact)
+ * Whether a value is a plain object (not a Date, Decimal, Buffer, ...)
  */
-function processValue(
-  key: string,
-  value: unknown,
-  config: AuditEntityConfig
-): unknown | null {
-  // Exclude field entirely
-  if (config.exclude.includes(key)) {
-    return null;
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function joinPath(parent: string, key: string | number): string {
+  return parent ? `${parent}.${key}` : String(key);
+}
+
+/**
+ * Drop excluded paths and unset values, with object keys in sorted order.
+ * Redacted values are kept as they are (redacted when rendered).
+ */
+function stripExcluded(value: unknown, rulePath: string, config: AuditEntityConfig): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => stripExcluded(item, rulePath, config));
   }
-  
-  // Redact sensitive fields
-  if (config.redact.includes(key)) {
-    return '[REDACTED]';
+  if (!isPlainObject(value)) return value;
+
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(value).sort()) {
+    const path = joinPath(rulePath, key);
+    const item = value[key];
+
+    // Exclude field entirely
+    if (config.exclude.includes(path)) continue;
+
+    if (getFieldRedaction(config, path)) {
+      result[key] = item;
+    } else if (item !== null && item !== undefined) {
+      result[key] = stripExcluded(item, path, config);
+    }
   }
-  
-  return value;
+  return result;
 }
 
 /**
- * Process an object according to audit config
+ * Replace redacted values (full, hash, mask or encrypt) for storage
  */
-function processObject(
-  obj: Record<string, unknown> | null,
-  config: AuditEntityConfig
-): Record<string, unknown> {
-  if (!obj) return {};
-  
+function redactTree(value: unknown, rulePath: string, config: AuditEntityConfig): unknown {
+  const redaction = rulePath ? getFieldRedaction(config, rulePath) : null;
+  if (redaction) return redactValue(value, redaction);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactTree(item, rulePath, config));
+  }
+  if (!isPlainObject(value)) return value;
+
   const result: Record<string, unknown> = {};
-  
-  for (const [key, value] of Object.entries(obj)) {
-    const processedValue = processValue(key, value, config);
-    if (processedValue !== null) {
-      result[key] = processedValue;
+  for (const [key, item] of Object.entries(value)) {
+    const redacted = redactTree(item, joinPath(rulePath, key), config);
+    if (redacted !== null && redacted !== undefined) {
+      result[key] = redacted;
     }
   }
-  
   return result;
 }
 
+/**
+ * Indices (into `values`) of a longest strictly increasing subsequence
+ */
+function longestIncreasingRun(values: number[]): Set<number> {
+  // tails[k]: index of the smallest tail of an increasing run of length k + 1
+  const tails: number[] = [];
+  const previous: number[] = new Array(values.length).fill(-1);
+
+  values.forEach((value, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (values[tails[mid]] < value) low = mid + 1;
+      else high = mid;
+    }
+    if (low > 0) previous[index] = tails[low - 1];
+    tails[low] = index;
+  });
+
+  const run = new Set<number>();
+  for (let index = tails.length ? tails[tails.length - 1] : -1; index !== -1; index = previous[index]) {
+    run.add(index);
+  }
+  return run;
+}
+
+/**
+ * Diff two arrays. Equal elements are matched in order; matched elements out
+ * of order with the rest (outside the longest run kept in order) are moves.
+ * An element removed where another is added (same index) is diffed in place.
+ */
+function diffArrays(
+  before: unknown[],
+  after: unknown[],
+  path: string,
+  rulePath: string,
+  config: AuditEntityConfig,
+  changes: PathChange[]
+): void {
+  const available = new Map<string, number[]>();
+  after.forEach((item, index) => {
+    const key = canonicalize(item);
+    available.set(key, [...(available.get(key) ?? []), index]);
+  });
+
+  // [before index, after index] of equal elements
+  const pairs: [number, number][] = [];
+  const removed: number[] = [];
+  before.forEach((item, index) => {
+    const candidates = available.get(canonicalize(item));
+    if (candidates?.length) {
+      pairs.push([index, candidates.shift()!]);
+    } else {
+      removed.push(index);
+    }
+  });
+
+  const matched = new Set(pairs.map(([, afterIndex]) => afterIndex));
+  const added = new Set(after.map((_, index) => index).filter((index) => !matched.has(index)));
+
+  for (const index of removed) {
+    if (added.has(index)) {
+      added.delete(index);
+      diffValues(before[index], after[index], joinPath(path, index), rulePath, config, changes);
+    } else {
+      changes.push({ op: 'remove', path: joinPath(path, index), rulePath, oldValue: before[index] });
+    }
+  }
+
+  const inOrder = longestIncreasingRun(pairs.map(([, afterIndex]) => afterIndex));
+  pairs
+    .filter(([beforeIndex, afterIndex], index) => !inOrder.has(index) && beforeIndex !== afterIndex)
+    .sort(([, a], [, b]) => a - b)
+    .forEach(([beforeIndex, afterIndex]) => {
+      changes.push({
+        op: 'move',
+        from: joinPath(path, beforeIndex),
+        path: joinPath(path, afterIndex),
+        rulePath,
+        value: after[afterIndex],
+      });
+    });
+
+  for (const index of [...added].sort((a, b) => a - b)) {
+    changes.push({ op: 'add', path: joinPath(path, index), rulePath, value: after[index] });
+  }
+}
+
+/**
+ * Diff two values at a path. Redacted values are compared whole.
+ */
+function diffValues(
+  before: unknown,
+  after: unknown,
+  path: string,
+  rulePath: string,
+  config: AuditEntityConfig,
+  changes: PathChange[]
+): void {
+  if (canonicalize(before) === canonicalize(after)) return;
+
+  const redacted = rulePath !== '' && getFieldRedaction(config, rulePath) !== null;
+
+  if (!redacted && isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    for (const key of keys) {
+      const keyPath = joinPath(path, key);
+      const keyRulePath = joinPath(rulePath, key);
+      if (!(key in before)) {
+        changes.push({ op: 'add', path: keyPath, rulePath: keyRulePath, value: after[key] });
+      } else if (!(key in after)) {
+        changes.push({ op: 'remove', path: keyPath, rulePath: keyRulePath, oldValue: before[key] });
+      } else {
+        diffValues(before[key], after[key], keyPath, keyRulePath, config, changes);
+      }
+    }
+    return;
+  }
+
+  if (!redacted && Array.isArray(before) && Array.isArray(after)) {
+    diffArrays(before, after, path, rulePath, config, changes);
+    return;
+  }
+
+  changes.push({ op: 'replace', path, rulePath, oldValue: before, value: after });
+}
+
+/**
+ * Redact the values of a change for storage
+ */
+function renderChange({ rulePath, ...change }: PathChange, config: AuditEntityConfig): AuditDiffChange {
+  const rendered: AuditDiffChange = { ...change };
+  if ('oldValue' in change) rendered.oldValue = redactTree(change.oldValue, rulePath, config) ?? null;
+  if ('value' in change) rendered.value = redactTree(change.value, rulePath, config) ?? null;
+  return rendered;
+}
+
 /**
  * Compute diff between two objects for audit logging
  */
@@ -66,37 +243,29 @@ export function computeDiff(
   const config = getEntityAuditConfig(entity);
   if (!config) return null;
 
-  const processedBefore = processObject(before, config);
-  const processedAfter = processObject(after, config);
-  
-  const fieldsChanged: string[] = [];
-  
-  // Find all keys that changed
-  const allKeys = new Set([
-    ...Object.keys(processedBefore),
-    ...Object.keys(processedAfter),
-  ]);
-  
-  for (const key of allKeys) {
-    const beforeVal = processedBefore[key];
-    const afterVal = processedAfter[key];
-    
-    // Compare values (handles dates, nulls, etc.)
-    const beforeStr = JSON.stringify(beforeVal);
-    const afterStr = JSON.stringify(afterVal);
-    
-    if (beforeStr !== afterStr) {
-      fieldsChanged.push(key);
-    }
-  }
-  
+  // Compare before redacting: hashed and encrypted values aren't comparable
+  // (encryption uses a random IV)
+  const strippedBefore = stripExcluded(before ?? {}, '', config) as Record<string, unknown>;
+  const strippedAfter = stripExcluded(after ?? {}, '', config) as Record<string, unknown>;
+
+  const changes: PathChange[] = [];
+  diffValues(strippedBefore, strippedAfter, '', '', config, changes);
+
   return {
-    before: processedBefore,
-    after: processedAfter,
-    fieldsChanged,
+    before: redactTree(strippedBefore, '', config) as Record<string, unknown>,
+    after: redactTree(strippedAfter, '', config) as Record<string, unknown>,
+    changes: changes.map((change) => renderChange(change, config)),
+    fieldsChanged: [...new Set(changes.map((change) => change.path))],
   };
 }
 
+/**
+ * Top-level fields of changed paths (e.g. `metadata.dimensions.height` -> `metadata`)
+ */
+export function getChangedFields(paths: string[]): string[] {
+  return [...new Set(paths.map((path) => path.split('.')[0]))];
+}
+
 /**
  * Compute diff for create action (no before state)
  */
@@ -117,6 +286,18 @@ export function computeDeleteDiff(
   return computeDiff(entity, data, null);
 }
 
+/**
+ * Compute diff for an event (login, security events): the details are
+ * recorded as `after`, with no fields changed
+ */
+export function computeEventDiff(
+  entity: string,
+  details: Record<string, unknown>
+): DiffResult | null {
+  const diff = computeDiff(entity, null, details);
+  return diff && { ...diff, changes: [], fieldsChanged: [] };
+}
+
 /**
  * Compute diff for update action
  */
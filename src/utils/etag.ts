@@ -0,0 +1,37 @@
+/**
+ * ETag Utility
+ *
+ * Books carry a version counter that is exposed as a strong ETag ("<version>")
+ * and checked against If-Match on writes for optimistic concurrency control.
+ */
+
+/**
+ * Format a version as an ETag header value
+ */
+export function formatEtag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Parse an If-Match header.
+ *
+ * Returns undefined when the header is absent, '*' for a wildcard,
+ * or the list of versions it names. Weak validators (W/"3") are accepted,
+ * and entity tags that are not versions are ignored (so they never match).
+ */
+export function parseIfMatch(header: string | undefined): number[] | '*' | undefined {
+  if (header === undefined) return undefined;
+
+  const value = header.trim();
+  if (value === '*') return '*';
+
+  const versions: number[] = [];
+  for (const tag of value.split(',')) {
+    const match = /^(?:W\/)?"(\d+)"$/.exec(tag.trim());
+    if (match) {
+      versions.push(Number(match[1]));
+    }
+  }
+
+  return versions;
+}
@@ -2,3 +2,9 @@ export * from './async-context';
 export * from './logger';
 export * from './diff';
 export * from './pagination';
+export * from './authors';
+export * from './isbn';
+export * from './etag';
+export * from './transaction';
+export * from './csv';
+export * from './onix';
@@ -0,0 +1,82 @@
+/**
+ * ISBN Utility
+ *
+ * Normalizes, validates and converts ISBN-10 / ISBN-13 identifiers.
+ * Normalized form: digits only (plus a trailing 'X' check digit for ISBN-10),
+ * without hyphens or spaces.
+ */
+
+/**
+ * Strip hyphens and spaces, uppercase the ISBN-10 'X' check digit
+ */
+export function normalizeIsbn(value: string): string {
+  return value.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Compute the ISBN-10 check digit for the first 9 digits
+ */
+function isbn10CheckDigit(first9: string): string {
+  let sum = 0;
+  for (let i = 0; i < 9; i++) {
+    sum += (10 - i) * Number(first9[i]);
+  }
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : String(check);
+}
+
+/**
+ * Compute the ISBN-13 check digit for the first 12 digits
+ */
+function isbn13CheckDigit(first12: string): string {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += (i % 2 === 0 ? 1 : 3) * Number(first12[i]);
+  }
+  return String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * Check a normalized ISBN-10 (format and check digit)
+ */
+export function isValidIsbn10(isbn: string): boolean {
+  if (!/^\d{9}[\dX]$/.test(isbn)) return false;
+  return isbn10CheckDigit(isbn.substring(0, 9)) === isbn[9];
+}
+
+/**
+ * Check a normalized ISBN-13 (format, 978/979 prefix and check digit)
+ */
+export function isValidIsbn13(isbn: string): boolean {
+  if (!/^97[89]\d{10}$/.test(isbn)) return false;
+  return isbn13CheckDigit(isbn.substring(0, 12)) === isbn[12];
+}
+
+/**
+ * Convert a valid ISBN-10 to its ISBN-13 (978 prefix)
+ */
+export function isbn10To13(isbn10: string): string {
+  const first12 = `978${isbn10.substring(0, 9)}`;
+  return first12 + isbn13CheckDigit(first12);
+}
+
+/**
+ * Convert a valid ISBN-13 to ISBN-10.
+ * Only 978-prefixed ISBN-13s have an ISBN-10 equivalent.
+ */
+export function isbn13To10(isbn13: string): string | null {
+  if (!isbn13.startsWith('978')) return null;
+  const first9 = isbn13.substring(3, 12);
+  return first9 + isbn10CheckDigit(first9);
+}
+
+/**
+ * Parse any ISBN (10 or 13 digits, with or without hyphens) to normalized ISBN-13.
+ * Returns null if the value is not a valid ISBN.
+ */
+export function toIsbn13(value: string): string | null {
+  const isbn = normalizeIsbn(value);
+  if (isValidIsbn13(isbn)) return isbn;
+  if (isValidIsbn10(isbn)) return isbn10To13(isbn);
+  return null;
+}
@@ -0,0 +1,160 @@
+import { AuthorRole, Book, BookStatus } from '../types';
+import { splitAuthorNames } from './authors';
+
+/**
+ * ONIX 3.0 Utility
+ *
+ * Builds ONIX for Books 3.0 messages (reference tags), one <Product> per book.
+ * Only the blocks we have data for are written: identifiers, title,
+ * contributors, publisher, publishing status and date.
+ */
+
+const ONIX_NAMESPACE = 'http://ns.editeur.org/onix/3.0/reference';
+
+// Codelist 17: contributor role
+const CONTRIBUTOR_ROLES: Record<AuthorRole, string> = {
+  author: 'A01',
+  illustrator: 'A12',
+  editor: 'B01',
+  translator: 'B06',
+};
+
+// Codelist 64: publishing status
+const PUBLISHING_STATUS: Record<BookStatus, string> = {
+  draft: '02', // Forthcoming
+  in_review: '02',
+  approved: '02',
+  scheduled: '02',
+  published: '04', // Active
+  out_of_print: '07', // Out of print
+};
+
+/**
+ * Escape text for XML element content and attributes
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Format a date as YYYYMMDD (ONIX default date format)
+ */
+function formatOnixDate(date: Date): string {
+  return date.toISOString().substring(0, 10).replace(/-/g, '');
+}
+
+/**
+ * Format a timestamp as YYYYMMDDThhmmZ (ONIX SentDateTime)
+ */
+function formatOnixDateTime(date: Date): string {
+  const iso = date.toISOString();
+  return `${iso.substring(0, 10).replace(/-/g, '')}T${iso.substring(11, 16).replace(':', '')}Z`;
+}
+
+function element(tag: string, value: string): string {
+  return `<${tag}>${escapeXml(value)}</${tag}>`;
+}
+
+/**
+ * Start of an ONIX message: XML declaration, root element and header
+ */
+export function formatOnixHeader(senderName: string, sentAt: Date = new Date()): string {
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<ONIXMessage release="3.0" xmlns="${ONIX_NAMESPACE}">\n` +
+    '  <Header>\n' +
+    `    <Sender>${element('SenderName', senderName)}</Sender>\n` +
+    `    ${element('SentDateTime', formatOnixDateTime(sentAt))}\n` +
+    '  </Header>\n'
+  );
+}
+
+/**
+ * End of an ONIX message
+ */
+export function formatOnixFooter(): string {
+  return '</ONIXMessage>\n';
+}
+
+/**
+ * Format a book as an ONIX 3.0 <Product> record.
+ *
+ * Deleted books are sent as delete notifications (05); unpublished books as
+ * advance notifications (02); published books as confirmed (03).
+ */
+export function formatOnixProduct(book: Book): string {
+  const notificationType = book.isDeleted
+    ? '05'
+    : book.publishedAt
+      ? '03'
+      : '02';
+
+  const lines: string[] = [
+    '  <Product>',
+    `    ${element('RecordReference', book.id)}`,
+    `    ${element('NotificationType', notificationType)}`,
+    // Proprietary identifier (01) is always present; ISBN-13 (15) when known
+    `    <ProductIdentifier>${element('ProductIDType', '01')}${element('IDTypeName', 'Book ID')}${element('IDValue', book.id)}</ProductIdentifier>`,
+  ];
+
+  if (book.isbn13) {
+    lines.push(`    <ProductIdentifier>${element('ProductIDType', '15')}${element('IDValue', book.isbn13)}</ProductIdentifier>`);
+  }
+
+  // Block 1: descriptive detail
+  lines.push(
+    '    <DescriptiveDetail>',
+    `      ${element('ProductComposition', '00')}`,
+    `      ${element('ProductForm', '00')}`,
+    '      <TitleDetail>',
+    `        ${element('TitleType', '01')}`,
+    `        <TitleElement>${element('TitleElementLevel', '01')}${element('TitleText', book.title)}</TitleElement>`,
+    '      </TitleDetail>'
+  );
+
+  // Contributors in byline order; fall back to the byline names for books without credits
+  const contributors = book.contributors?.length
+    ? book.contributors.map((credit) => ({
+        name: credit.author?.name ?? '',
+        role: CONTRIBUTOR_ROLES[credit.role] ?? CONTRIBUTOR_ROLES.author,
+      }))
+    : splitAuthorNames(book.authors).map((name) => ({ name, role: CONTRIBUTOR_ROLES.author }));
+
+  if (contributors.length === 0) {
+    lines.push('      <NoContributor/>');
+  }
+  contributors.forEach((contributor, index) => {
+    lines.push(
+      '      <Contributor>' +
+        element('SequenceNumber', String(index + 1)) +
+        element('ContributorRole', contributor.role) +
+        element('PersonName', contributor.name) +
+        '</Contributor>'
+    );
+  });
+
+  lines.push('    </DescriptiveDetail>');
+
+  // Block 4: publishing detail
+  const publisherName = book.publisher?.name ?? book.publishedBy;
+  const publishingDate = book.publishedAt ?? book.scheduledAt;
+
+  lines.push('    <PublishingDetail>');
+  if (publisherName) {
+    lines.push(`      <Publisher>${element('PublishingRole', '01')}${element('PublisherName', publisherName)}</Publisher>`);
+  }
+  lines.push(`      ${element('PublishingStatus', PUBLISHING_STATUS[book.status] ?? '00')}`);
+  if (publishingDate) {
+    lines.push(
+      `      <PublishingDate>${element('PublishingDateRole', '01')}${element('Date', formatOnixDate(new Date(publishingDate)))}</PublishingDate>`
+    );
+  }
+  lines.push('    </PublishingDetail>', '  </Product>');
+
+  return lines.join('\n') + '\n';
+}
@@ -22,9 +22,20 @@ export interface PaginatedResult<T> {
   hasMore: boolean;
 }
 
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortSpec {
+  field: string;
+  direction: SortDirection;
+}
+
 export interface CursorData {
   id: string;
   timestamp?: string;
+  // Sort param the cursor was issued for (e.g. '-updatedAt')
+  sort?: string;
+  // Values of the sort fields on the last item of the page
+  values?: Record<string, string | number | null>;
 }
 
 /**
@@ -46,6 +57,37 @@ export function decodeCursor(cursor: string): CursorData | null {
   }
 }
 
+/**
+ * Parse a sort param such as 'title' or '-updatedAt'.
+ * A leading '-' means descending order.
+ */
+export function parseSort(sort: string): SortSpec {
+  return sort.startsWith('-')
+    ? { field: sort.substring(1), direction: 'desc' }
+    : { field: sort, direction: 'asc' };
+}
+
+/**
+ * Build a keyset condition that continues after the cursor position.
+ *
+ * Rows are ordered by the sort field and then by id as a tie-breaker,
+ * so the condition is: field beyond value, or field equal and id beyond cursor id.
+ * `value` must already be converted to the field's type (e.g. Date).
+ */
+export function buildKeysetCondition(
+  spec: SortSpec,
+  value: unknown,
+  id: string
+): Record<string, unknown> {
+  const op = spec.direction === 'desc' ? 'lt' : 'gt';
+  return {
+    OR: [
+      { [spec.field]: { [op]: value } },
+      { [spec.field]: value, id: { [op]: id } },
+    ],
+  };
+}
+
 /**
  * Parse pagination params from query string
  */
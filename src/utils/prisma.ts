@@ -0,0 +1,15 @@
+import { PrismaClient } from '@prisma/client';
+import type { ITXClientDenyList } from '@prisma/client/runtime/library';
+import { auditExtension } from './audit-extension';
+
+/**
+ * Shared Prisma Client
+ *
+ * One client for the application, extended with automatic auditing.
+ * Repositories use it (or the active transaction, see runInTransaction) so
+ * every mutation of an audited model is recorded.
+ */
+export const prisma = new PrismaClient().$extends(auditExtension);
+
+// Client inside an interactive transaction (same API, minus connection/transaction methods)
+export type TransactionClient = Omit<typeof prisma, ITXClientDenyList>;
@@ -0,0 +1,162 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from 'crypto';
+import { FieldRedaction } from '../config/audit.config';
+import { config } from '../config';
+import { logger } from './logger';
+
+/**
+ * Redaction Utility
+ *
+ * Replaces the value of a redacted field before it is written to the audit
+ * trail, according to the field's strategy (audit.config.ts):
+ *   full    '[REDACTED]'
+ *   hash    '[HASH:<hex>]'          HMAC-SHA256 keyed with AUDIT_REDACTION_SALT
+ *   mask    '[MASKED:****1234]'     only the last characters kept
+ *   encrypt '[ENCRYPTED:<base64>]'  AES-256-GCM (iv + auth tag + ciphertext)
+ *                                   keyed with AUDIT_ENCRYPTION_KEY
+ * Hashing and encryption fall back to full redaction when their secret isn't
+ * configured, so a value is never stored in the clear.
+ */
+
+export const REDACTED = '[REDACTED]';
+
+const REDACTED_VALUE_PATTERN = /^\[(REDACTED\]$|HASH:|MASKED:|ENCRYPTED:)/;
+const ENCRYPTED_VALUE_PATTERN = /^\[ENCRYPTED:([A-Za-z0-9+/=]+)\]$/;
+
+const DEFAULT_VISIBLE_CHARS = 4;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// Strategies already warned about missing secrets (once per process)
+const warned = new Set<string>();
+
+function warnOnce(strategy: string, message: string): void {
+  if (warned.has(strategy)) return;
+  warned.add(strategy);
+  logger.warn(message, { strategy });
+}
+
+/**
+ * AES-256 key derived from the configured passphrase, or null when not configured
+ */
+function getEncryptionKey(): Buffer | null {
+  const secret = config.auditRedaction.encryptionKey;
+  return secret ? createHash('sha256').update(secret).digest() : null;
+}
+
+/**
+ * Encrypt a value (JSON-encoded, so its type survives) as '[ENCRYPTED:...]'
+ */
+function encryptValue(value: unknown, key: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+  const payload = Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+  return `[ENCRYPTED:${payload.toString('base64')}]`;
+}
+
+/**
+ * Apply a field's redaction to a value. Null stays null for every strategy
+ * except full, so clearing a hashed, masked or encrypted field stays visible.
+ */
+export function redactValue(value: unknown, redaction: FieldRedaction): unknown {
+  if (redaction.strategy === 'full') return REDACTED;
+  if (value === null || value === undefined) return value;
+
+  switch (redaction.strategy) {
+    case 'hash': {
+      const salt = config.auditRedaction.hashSalt;
+      if (!salt) {
+        warnOnce('hash', 'AUDIT_REDACTION_SALT is not set; hashed audit fields are fully redacted');
+        return REDACTED;
+      }
+      return `[HASH:${createHmac('sha256', salt).update(JSON.stringify(value)).digest('hex')}]`;
+    }
+
+    case 'mask': {
+      const text =
+        typeof value === 'string' ? value : value instanceof Date ? value.toISOString() : JSON.stringify(value);
+      const visible = Math.max(0, redaction.visibleChars ?? DEFAULT_VISIBLE_CHARS);
+      // Never reveal more than half of a short value
+      const shown = Math.min(visible, Math.floor(text.length / 2));
+      return `[MASKED:${'*'.repeat(text.length - shown)}${shown > 0 ? text.slice(-shown) : ''}]`;
+    }
+
+    case 'encrypt': {
+      const key = getEncryptionKey();
+      if (!key) {
+        warnOnce('encrypt', 'AUDIT_ENCRYPTION_KEY is not set; encrypted audit fields are fully redacted');
+        return REDACTED;
+      }
+      return encryptValue(value, key);
+    }
+
+    default:
+      return REDACTED;
+  }
+}
+
+/**
+ * Whether a recorded value is a redaction (any strategy) rather than the real value
+ */
+export function isRedactedValue(value: unknown): boolean {
+  return typeof value === 'string' && REDACTED_VALUE_PATTERN.test(value);
+}
+
+/**
+ * Whether a recorded value holds a redaction anywhere (nested values included)
+ */
+export function containsRedactedValue(value: unknown): boolean {
+  if (Array.isArray(value)) return value.some(containsRedactedValue);
+  if (value !== null && typeof value === 'object') {
+    return Object.values(value as Record<string, unknown>).some(containsRedactedValue);
+  }
+  return isRedactedValue(value);
+}
+
+/**
+ * Whether a recorded value was encrypted and can be revealed
+ */
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === 'string' && ENCRYPTED_VALUE_PATTERN.test(value);
+}
+
+/**
+ * Encrypted values in a recorded snapshot, with their dotted paths
+ * (array elements by index, e.g. `contacts.0.taxId`)
+ */
+export function findEncryptedValues(value: unknown, path = ''): [string, string][] {
+  if (isEncryptedValue(value)) return path ? [[path, value]] : [];
+  if (value === null || typeof value !== 'object') return [];
+
+  return Object.entries(value as Record<string, unknown>).flatMap(([key, item]) =>
+    findEncryptedValues(item, path ? `${path}.${key}` : key)
+  );
+}
+
+/**
+ * Whether encrypted values can be revealed (an encryption key is configured)
+ */
+export function isRevealAvailable(): boolean {
+  return getEncryptionKey() !== null;
+}
+
+/**
+ * Decrypt an '[ENCRYPTED:...]' value. Throws when no key is configured, or
+ * the value was encrypted with another key or has been altered.
+ */
+export function decryptValue(value: string): unknown {
+  const key = getEncryptionKey();
+  const match = ENCRYPTED_VALUE_PATTERN.exec(value);
+  if (!key || !match) {
+    throw new Error('Value cannot be decrypted');
+  }
+
+  const payload = Buffer.from(match[1], 'base64');
+  const decipher = createDecipheriv('aes-256-gcm', key, payload.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(payload.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  const plaintext = Buffer.concat([
+    decipher.update(payload.subarray(IV_LENGTH + TAG_LENGTH)),
+    decipher.final(),
+  ]);
+  return JSON.parse(plaintext.toString('utf8'));
+}
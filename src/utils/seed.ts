@@ -10,6 +10,8 @@ export interface SeedResult {
   alreadySeeded?: boolean;
   data?: {
     users: string[];
+    authorsCreated: number;
+    publishersCreated: number;
     booksCreated: number;
   };
 }
@@ -54,32 +56,56 @@ export async function seedDatabase(): Promise<SeedResult> {
     },
   });
 
-  // Create sample books
-  await prisma.book.createMany({
-    data: [
-      {
-        id: uuidv4(),
-        title: 'Why This Code Works',
-        authors: 'Ankit Verma',
-        publishedBy: 'Penguin',
-        createdById: admin.id,
-      },
-      {
-        id: uuidv4(),
-        title: 'Fixing Bugs by Adding More Bugs',
-        authors: 'Sharma Ji',
-        publishedBy: 'Panic Mode Publishing',
-        createdById: admin.id,
-      },
-      {
+  // Create sample authors
+  const [ankit, sharma, varun] = await Promise.all(
+    ['Ankit Verma', 'Sharma Ji', 'Varun Kumar'].map((name) =>
+      prisma.author.create({ data: { id: uuidv4(), name } })
+    )
+  );
+
+  // Create sample publishers
+  const [penguin, panicMode] = await Promise.all(
+    ['Penguin', 'Panic Mode Publishing'].map((name) =>
+      prisma.publisher.create({ data: { id: uuidv4(), name } })
+    )
+  );
+
+  // Create sample books, each crediting its author
+  const books = [
+    {
+      title: 'Why This Code Works',
+      author: ankit,
+      publisher: penguin,
+      createdById: admin.id,
+    },
+    {
+      title: 'Fixing Bugs by Adding More Bugs',
+      author: sharma,
+      publisher: panicMode,
+      createdById: admin.id,
+    },
+    {
+      title: 'How to Eat Almonds and Remember Syntax',
+      author: varun,
+      publisher: penguin,
+      createdById: reviewer.id,
+    },
+  ];
+
+  for (const { author, publisher, ...book } of books) {
+    await prisma.book.create({
+      data: {
         id: uuidv4(),
-        title: 'How to Eat Almonds and Remember Syntax',
-        authors: 'Varun Kumar',
-        publishedBy: 'Penguin',
-        createdById: reviewer.id,
+        ...book,
+        authors: author.name,
+        publishedBy: publisher.name,
+        publisherId: publisher.id,
+        contributors: {
+          create: [{ authorId: author.id, role: 'author', position: 0 }],
+        },
       },
-    ],
-  });
+    });
+  }
 
   return {
     success: true,
@@ -87,6 +113,8 @@ export async function seedDatabase(): Promise<SeedResult> {
     alreadySeeded: false,
     data: {
       users: ['admin@bookpub.com', 'reviewer@bookpub.com'],
+      authorsCreated: 3,
+      publishersCreated: 2,
       booksCreated: 3
     }
   };
@@ -0,0 +1,71 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { prisma, TransactionClient } from './prisma';
+
+/**
+ * Transaction Context using AsyncLocalStorage
+ *
+ * Like the request context, the active interactive transaction is propagated
+ * implicitly: repositories read it with getTransaction(), so services can group
+ * several repository calls into one transaction without passing a client around.
+ * Work registered with beforeCommit runs at the end of the outermost
+ * transaction, right before it commits.
+ */
+
+interface TransactionContext {
+  tx: TransactionClient;
+  beforeCommit: (() => Promise<void>)[];
+}
+
+const transactionStorage = new AsyncLocalStorage<TransactionContext>();
+
+export interface TransactionOptions {
+  // Max time the transaction may run (ms)
+  timeout?: number;
+  // Max time to wait for a connection (ms)
+  maxWait?: number;
+}
+
+/**
+ * Get the active transaction client, if any
+ */
+export function getTransaction(): TransactionClient | undefined {
+  return transactionStorage.getStore()?.tx;
+}
+
+/**
+ * Run a function in the active transaction right before it commits (after
+ * everything else the transaction does). Returns false outside a transaction.
+ */
+export function beforeCommit(fn: () => Promise<void>): boolean {
+  const context = transactionStorage.getStore();
+  if (!context) return false;
+
+  context.beforeCommit.push(fn);
+  return true;
+}
+
+/**
+ * Run a function inside an interactive transaction.
+ * Nested calls join the outer transaction, so a repository write (mutation and
+ * audit entry) called from a service-level transaction commits with it.
+ */
+export async function runInTransaction<T>(
+  fn: () => Promise<T>,
+  options: TransactionOptions = {}
+): Promise<T> {
+  if (getTransaction()) {
+    return fn();
+  }
+
+  return prisma.$transaction((tx) => {
+    const context: TransactionContext = { tx, beforeCommit: [] };
+    return transactionStorage.run(context, async () => {
+      const result = await fn();
+      // Hooks may register more hooks; they run too
+      for (const hook of context.beforeCommit) {
+        await hook();
+      }
+      return result;
+    });
+  }, options);
+}
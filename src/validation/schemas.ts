@@ -1,24 +1,83 @@
 import { z } from 'zod';
+import { isbn10To13, isValidIsbn10, isValidIsbn13, normalizeIsbn, toIsbn13 } from '../utils/isbn';
 
 /**
  * Validation Schemas using Zod
  */
 
+// Author credit on a book: existing author by id, or a name to find or create
+export const authorRoleSchema = z.enum(['author', 'editor', 'translator', 'illustrator']);
+
+export const authorCreditSchema = z
+  .object({
+    authorId: z.string().uuid({ message: 'Invalid author ID format' }).optional(),
+    name: z
+      .string()
+      .trim()
+      .min(1, 'Author name cannot be empty')
+      .max(200, 'Author name must be less than 200 characters')
+      .optional(),
+    role: authorRoleSchema.optional(),
+  })
+  .refine((credit) => credit.authorId || credit.name, {
+    message: 'Either authorId or name is required',
+  });
+
+// Legacy comma-separated string, or an ordered list of credits
+const bookAuthorsSchema = z.union([
+  z
+    .string()
+    .min(1, 'Authors is required')
+    .max(1000, 'Authors must be less than 1000 characters'),
+  z
+    .array(authorCreditSchema)
+    .min(1, 'At least one author is required')
+    .max(50, 'A book can have at most 50 contributors'),
+]);
+
+// ISBN schemas: normalized (hyphens/spaces stripped) and check digit validated
+export const isbn10Schema = z
+  .string()
+  .max(20, 'ISBN-10 is too long')
+  .transform(normalizeIsbn)
+  .refine(isValidIsbn10, { message: 'Invalid ISBN-10 (bad format or check digit)' });
+
+export const isbn13Schema = z
+  .string()
+  .max(20, 'ISBN-13 is too long')
+  .transform(normalizeIsbn)
+  .refine(isValidIsbn13, { message: 'Invalid ISBN-13 (bad format or check digit)' });
+
+// When both ISBNs are given they must identify the same book
+function isbnPairMatches(data: { isbn10?: string | null; isbn13?: string | null }): boolean {
+  return !data.isbn10 || !data.isbn13 || isbn10To13(data.isbn10) === data.isbn13;
+}
+
+const isbnPairMessage = {
+  message: 'ISBN-10 and ISBN-13 do not refer to the same book',
+  path: ['isbn13'],
+};
+
 // Book validation schemas
 export const createBookSchema = z.object({
   title: z
     .string()
     .min(1, 'Title is required')
     .max(500, 'Title must be less than 500 characters'),
-  authors: z
-    .string()
-    .min(1, 'Authors is required')
-    .max(1000, 'Authors must be less than 1000 characters'),
+  authors: bookAuthorsSchema,
+  // Publisher name, kept for backward compatibility (matched or created by name)
   publishedBy: z
     .string()
     .min(1, 'Publisher is required')
-    .max(500, 'Publisher must be less than 500 characters'),
-});
+    .max(500, 'Publisher must be less than 500 characters')
+    .optional(),
+  publisherId: z.string().uuid({ message: 'Invalid publisher ID format' }).optional(),
+  isbn10: isbn10Schema.optional(),
+  isbn13: isbn13Schema.optional(),
+}).refine((data) => data.publishedBy || data.publisherId, {
+  message: 'Either publisherId or publishedBy is required',
+  path: ['publisherId'],
+}).refine(isbnPairMatches, isbnPairMessage);
 
 export const updateBookSchema = z.object({
   title: z
@@ -26,17 +85,17 @@ export const updateBookSchema = z.object({
     .min(1, 'Title cannot be empty')
     .max(500, 'Title must be less than 500 characters')
     .optional(),
-  authors: z
-    .string()
-    .min(1, 'Authors cannot be empty')
-    .max(1000, 'Authors must be less than 1000 characters')
-    .optional(),
+  authors: bookAuthorsSchema.optional(),
   publishedBy: z
     .string()
     .min(1, 'Publisher cannot be empty')
     .max(500, 'Publisher must be less than 500 characters')
     .optional(),
-});
+  publisherId: z.string().uuid({ message: 'Invalid publisher ID format' }).optional(),
+  // null clears the ISBNs
+  isbn10: isbn10Schema.nullable().optional(),
+  isbn13: isbn13Schema.nullable().optional(),
+}).refine(isbnPairMatches, isbnPairMessage);
 
 // Pagination query schema
 export const paginationSchema = z.object({
@@ -49,6 +108,254 @@ export const paginationSchema = z.object({
   cursor: z.string().optional(),
 });
 
+// Book list query schema
+export const bookListQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200).optional(),
+  createdById: z.string().uuid({ message: 'Invalid createdById format' }).optional(),
+  updatedById: z.string().uuid({ message: 'Invalid updatedById format' }).optional(),
+  createdFrom: z.string().datetime({ message: 'Invalid ISO datetime format' }).optional(),
+  createdTo: z.string().datetime({ message: 'Invalid ISO datetime format' }).optional(),
+  updatedFrom: z.string().datetime({ message: 'Invalid ISO datetime format' }).optional(),
+  updatedTo: z.string().datetime({ message: 'Invalid ISO datetime format' }).optional(),
+  authorId: z.string().uuid({ message: 'Invalid authorId format' }).optional(),
+  publisherId: z.string().uuid({ message: 'Invalid publisherId format' }).optional(),
+  status: z
+    .enum(['draft', 'in_review', 'approved', 'scheduled', 'published', 'out_of_print'])
+    .optional(),
+  sort: z
+    .enum([
+      'title', '-title',
+      'authors', '-authors',
+      'publishedBy', '-publishedBy',
+      'createdAt', '-createdAt',
+      'updatedAt', '-updatedAt',
+    ])
+    .optional(),
+  limit: z
+    .string()
+    .regex(/^\d+$/, 'Limit must be a positive number')
+    .transform(Number)
+    .pipe(z.number().min(1).max(100))
+    .optional(),
+  cursor: z.string().optional(),
+  includeDeleted: z.enum(['true', 'false']).optional(),
+});
+
+// Catalog export: the list filters (without pagination) and an output format
+export const bookExportQuerySchema = bookListQuerySchema
+  .omit({ limit: true, cursor: true })
+  .extend({
+    format: z.enum(['csv', 'jsonl', 'onix']).default('csv'),
+  });
+
+// Single book query: point-in-time view
+export const bookQuerySchema = z.object({
+  asOf: z.string().datetime({ message: 'Invalid ISO datetime format' }).optional(),
+  includeDeleted: z.enum(['true', 'false']).optional(),
+});
+
+// Revert a book to an audited version
+export const revertBookSchema = z.object({
+  auditId: z.string().uuid({ message: 'Invalid audit ID format' }),
+  snapshot: z.enum(['before', 'after']).default('after'),
+  fields: z.array(z.string().max(100)).min(1).optional(),
+});
+
+// Author validation schemas
+export const createAuthorSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(200, 'Name must be less than 200 characters'),
+  bio: z
+    .string()
+    .max(5000, 'Bio must be less than 5000 characters')
+    .optional(),
+});
+
+export const updateAuthorSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name cannot be empty')
+    .max(200, 'Name must be less than 200 characters')
+    .optional(),
+  bio: z
+    .string()
+    .max(5000, 'Bio must be less than 5000 characters')
+    .nullable()
+    .optional(),
+});
+
+// Author list query schema
+export const authorListQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200).optional(),
+  limit: z
+    .string()
+    .regex(/^\d+$/, 'Limit must be a positive number')
+    .transform(Number)
+    .pipe(z.number().min(1).max(100))
+    .optional(),
+  cursor: z.string().optional(),
+});
+
+// Publisher validation schemas
+const optionalText = (field: string, max: number) =>
+  z.string().trim().max(max, `${field} must be less than ${max} characters`);
+
+export const createPublisherSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(500, 'Name must be less than 500 characters'),
+  imprints: z
+    .array(z.string().trim().min(1, 'Imprint cannot be empty').max(500))
+    .max(100, 'A publisher can have at most 100 imprints')
+    .optional(),
+  contactName: optionalText('Contact name', 200).optional(),
+  contactEmail: z.string().email('Invalid email format').optional(),
+  contactPhone: optionalText('Contact phone', 50).optional(),
+  address: optionalText('Address', 1000).optional(),
+  website: z.string().url('Invalid website URL').optional(),
+  taxId: optionalText('Tax ID', 50).optional(),
+});
+
+export const updatePublisherSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name cannot be empty')
+    .max(500, 'Name must be less than 500 characters')
+    .optional(),
+  imprints: z
+    .array(z.string().trim().min(1, 'Imprint cannot be empty').max(500))
+    .max(100, 'A publisher can have at most 100 imprints')
+    .optional(),
+  contactName: optionalText('Contact name', 200).nullable().optional(),
+  contactEmail: z.string().email('Invalid email format').nullable().optional(),
+  contactPhone: optionalText('Contact phone', 50).nullable().optional(),
+  address: optionalText('Address', 1000).nullable().optional(),
+  website: z.string().url('Invalid website URL').nullable().optional(),
+  taxId: optionalText('Tax ID', 50).nullable().optional(),
+});
+
+// Publisher list query schema
+export const publisherListQuerySchema = authorListQuerySchema;
+
+// Bulk import query schema
+export const importQuerySchema = z.object({
+  format: z.enum(['csv', 'jsonl']).optional(),
+  dryRun: z.enum(['true', 'false']).optional(),
+});
+
+// Workflow transition body schema
+export const transitionBookSchema = z.object({
+  publishAt: z.string().datetime({ message: 'Invalid ISO datetime format' }).optional(),
+});
+
+// Book comment schemas
+export const commentFieldSchema = z.enum([
+  'title', 'authors', 'publishedBy', 'publisherId', 'isbn10', 'isbn13',
+]);
+
+export const createCommentSchema = z.object({
+  body: z
+    .string()
+    .trim()
+    .min(1, 'Comment body is required')
+    .max(10000, 'Comment must be less than 10000 characters'),
+  parentId: z.string().uuid({ message: 'Invalid parent comment ID format' }).optional(),
+  field: commentFieldSchema.optional(),
+});
+
+export const updateCommentSchema = z.object({
+  body: z
+    .string()
+    .trim()
+    .min(1, 'Comment body cannot be empty')
+    .max(10000, 'Comment must be less than 10000 characters')
+    .optional(),
+  field: commentFieldSchema.nullable().optional(),
+});
+
+export const commentListQuerySchema = z.object({
+  resolved: z.enum(['true', 'false']).optional(),
+  field: commentFieldSchema.optional(),
+});
+
+// Book + comment ID parameter schema
+export const commentParamsSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid ID format' }),
+  commentId: z.string().uuid({ message: 'Invalid comment ID format' }),
+});
+
+// Audit action schema
+export const auditActionSchema = z.enum([
+  'create', 'update', 'delete', 'restore', 'login',
+  // Reads of read-tracked entities, privileged reads of encrypted audit values
+  'read', 'reveal',
+  // Data subject requests (access export, erasure)
+  'data_export', 'erase',
+  // Workflow transitions
+  'submit', 'reject', 'approve', 'schedule', 'unschedule', 'publish', 'retire', 'reissue',
+  // Security events
+  'login_failed', 'access_denied', 'token_invalid',
+]);
+
+// One or more comma-separated audit actions (e.g. login_failed,token_invalid)
+const auditActionListSchema = z
+  .string()
+  .max(200)
+  .refine(
+    (value) => value.split(',').every((action) => auditActionSchema.safeParse(action).success),
+    { message: `Invalid action. Valid actions: ${auditActionSchema.options.join(', ')}` }
+  );
+
+// Change set rollback: request ID parameter and preview flag
+export const changesetParamsSchema = z.object({
+  requestId: z.string().min(1).max(100),
+});
+
+export const changesetRollbackQuerySchema = z.object({
+  preview: z.enum(['true', 'false']).optional(),
+});
+
+// Audit chain verification range
+export const auditVerifyQuerySchema = z.object({
+  from: z.string().datetime({ message: 'Invalid ISO datetime format' }).optional(),
+  to: z.string().datetime({ message: 'Invalid ISO datetime format' }).optional(),
+});
+
+// Signed audit checkpoint (as exported by GET /api/audits/checkpoint)
+const sha256HexSchema = z.string().regex(/^[0-9a-f]{64}$/, 'Expected a hex SHA-256 digest');
+
+export const auditCheckpointSchema = z.object({
+  version: z.literal(1),
+  sequence: z.number().int().min(1),
+  auditId: z.string().uuid({ message: 'Invalid audit ID format' }),
+  hash: sha256HexSchema,
+  timestamp: z.string().datetime({ message: 'Invalid ISO datetime format' }),
+  createdAt: z.string().datetime({ message: 'Invalid ISO datetime format' }),
+  algorithm: z.literal('HMAC-SHA256'),
+  signature: sha256HexSchema,
+});
+
+// Reveal encrypted audit values: all of them, or only these fields
+export const auditRevealSchema = z.object({
+  fields: z.array(z.string().min(1)).min(1).optional(),
+});
+
+// Audit archives: archive ID parameter (e.g. Book-2025-01-11-3fa94c1e) and list filter
+export const auditArchiveParamsSchema = z.object({
+  archiveId: z.string().regex(/^[A-Za-z0-9]+-\d{4}-\d{2}-\d{2}-[0-9a-f]+$/, 'Invalid archive ID format'),
+});
+
+export const auditArchiveListQuerySchema = z.object({
+  entity: z.string().max(100).optional(),
+});
+
 // Audit filter schema
 export const auditFilterSchema = z.object({
   from: z.string().datetime({ message: 'Invalid ISO datetime format' }).optional(),
@@ -56,9 +363,20 @@ export const auditFilterSchema = z.object({
   entity: z.string().max(100).optional(),
   entityId: z.string().uuid({ message: 'Invalid entity ID format' }).optional(),
   actorId: z.string().uuid({ message: 'Invalid actor ID format' }).optional(),
-  action: z.enum(['create', 'update', 'delete', 'restore', 'login']).optional(),
+  action: auditActionListSchema.optional(),
   fieldsChanged: z.string().max(500).optional(), // comma-separated
+  // Entries where a field (or dotted path) changed from and/or to a value
+  changedField: z.string().min(1).max(200).optional(),
+  changedFrom: z.string().max(500).optional(),
+  changedTo: z.string().max(500).optional(),
   requestId: z.string().max(100).optional(),
+  // Request details
+  ip: z.union([z.ipv4(), z.ipv6()], { message: 'Invalid IP address' }).optional(),
+  userAgent: z.string().max(500).optional(), // partial match
+  method: z.string().transform((value) => value.toUpperCase())
+    .pipe(z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE'])).optional(),
+  route: z.string().max(200).optional(), // route pattern, e.g. /api/books/:id
+  authMethod: z.enum(['jwt', 'api_key']).optional(),
   limit: z
     .string()
     .regex(/^\d+$/)
@@ -68,11 +386,48 @@ export const auditFilterSchema = z.object({
   cursor: z.string().optional(),
 });
 
+// Recorded reads: who viewed what, when
+export const auditReadFilterSchema = auditFilterSchema.pick({
+  from: true,
+  to: true,
+  entity: true,
+  entityId: true,
+  actorId: true,
+  limit: true,
+  cursor: true,
+});
+
+// Audit export: audit filters without pagination, plus the output format
+export const auditExportQuerySchema = auditFilterSchema
+  .omit({ limit: true, cursor: true })
+  .extend({
+    format: z.enum(['csv', 'jsonl']).default('csv'),
+  });
+
+// Audit statistics: audit filters without pagination, plus the bucket dimension
+export const auditStatsQuerySchema = auditFilterSchema
+  .omit({ limit: true, cursor: true })
+  .extend({
+    groupBy: z.enum(['action', 'entity', 'actorId', 'field', 'hour', 'day', 'week']),
+  });
+
 // ID parameter schema
 export const idParamSchema = z.object({
   id: z.string().uuid({ message: 'Invalid ID format' }),
 });
 
+// ISBN parameter schema (ISBN-10 or ISBN-13, resolved to normalized ISBN-13)
+export const isbnParamSchema = z.object({
+  isbn: z.string().max(20).transform((value, ctx) => {
+    const isbn13 = toIsbn13(value);
+    if (!isbn13) {
+      ctx.addIssue({ code: 'custom', message: 'Invalid ISBN format or check digit' });
+      return z.NEVER;
+    }
+    return isbn13;
+  }),
+});
+
 // Login schema
 export const loginSchema = z.object({
   email: z.string().email('Invalid email format'),
@@ -82,6 +437,18 @@ export const loginSchema = z.object({
 // Type exports
 export type CreateBookInput = z.infer<typeof createBookSchema>;
 export type UpdateBookInput = z.infer<typeof updateBookSchema>;
+export type CreateAuthorInput = z.infer<typeof createAuthorSchema>;
+export type UpdateAuthorInput = z.infer<typeof updateAuthorSchema>;
+export type CreatePublisherInput = z.infer<typeof createPublisherSchema>;
+export type UpdatePublisherInput = z.infer<typeof updatePublisherSchema>;
+export type BookListQueryInput = z.infer<typeof bookListQuerySchema>;
+export type BookExportQueryInput = z.infer<typeof bookExportQuerySchema>;
 export type PaginationInput = z.infer<typeof paginationSchema>;
 export type AuditFilterInput = z.infer<typeof auditFilterSchema>;
+export type AuditExportQueryInput = z.infer<typeof auditExportQuerySchema>;
+export type AuditStatsQueryInput = z.infer<typeof auditStatsQuerySchema>;
+export type CreateCommentInput = z.infer<typeof createCommentSchema>;
+export type UpdateCommentInput = z.infer<typeof updateCommentSchema>;
+export type RevertBookInput = z.infer<typeof revertBookSchema>;
+export type TransitionBookInput = z.infer<typeof transitionBookSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;